@@ -1,11 +1,54 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { EventEmitter } from "node:events";
 
 import {
   neatCatch,
   createNeatWrapper,
+  neatParse,
+  configureNeatCatch,
+  createNeatCatch,
+  NeatCatch,
+  NeatRetry,
   neatCatchAll,
+  neatCatchFailFast,
+  neatCatchAny,
+  neatCatchRace,
+  neatCatchStream,
+  neatCatchIterable,
   neatCatchRetry,
+  neatCatchFallback,
+  neatCatchTimeout,
+  neatCallback,
+  neatOnce,
   errorTransformers,
+  neatResult,
+  defineError,
+  matchError,
+  serializeError,
+  deserializeError,
+  registerErrorClass,
+  getCauseChain,
+  rootCause,
+  flattenErrors,
+  findCause,
+  createCircuitBreaker,
+  createRateLimitedWrapper,
+  createBulkhead,
+  createCachedNeatWrapper,
+  neatify,
+  AbortError,
+  BulkheadFullError,
+  RateLimitedError,
+  CircuitOpenError,
+  IterableSourceError,
+  ValidationError,
+  NonErrorThrown,
+  TimeoutError,
+} from "./index";
+import type {
+  NeatCatchResult,
+  SerializedError,
+  StandardSchemaV1,
 } from "./index";
 
 describe("neatCatch", () => {
@@ -187,7 +230,8 @@ describe("neatCatch", () => {
       });
 
       expect(result).toBeNull();
-      expect(error).toBeUndefined();
+      expect(error).toBeInstanceOf(NonErrorThrown);
+      expect((error as NonErrorThrown).value).toBeUndefined();
     });
 
     it("should handle functions that throw null", () => {
@@ -196,7 +240,34 @@ describe("neatCatch", () => {
       });
 
       expect(result).toBeNull();
-      expect(error).toBeNull();
+      expect(error).toBeInstanceOf(NonErrorThrown);
+      expect((error as NonErrorThrown).value).toBeNull();
+    });
+
+    it("should wrap other falsy thrown values", async () => {
+      for (const value of [0, "", false]) {
+        const [, error] = neatCatch((): void => {
+          throw value;
+        });
+        expect((error as NonErrorThrown).value).toBe(value);
+      }
+
+      const [, asyncError] = await neatCatch(() => Promise.reject(0));
+      expect(asyncError).toBeInstanceOf(NonErrorThrown);
+      expect((asyncError as NonErrorThrown).message).toBe(
+        "Non-error value thrown: 0"
+      );
+    });
+
+    it("should pass the wrapped value to the error transformer", () => {
+      const [, error] = neatCatch(
+        (): void => {
+          throw "";
+        },
+        (err) => (err as NonErrorThrown).value
+      );
+
+      expect(error).toBe("");
     });
 
     it("should handle empty error transformer", () => {
@@ -243,6 +314,158 @@ describe("neatCatch", () => {
     });
   });
 
+  describe("selective catching", () => {
+    class ValidationError extends Error {
+      field = "email";
+    }
+    class NotFoundError extends Error {}
+
+    it("should catch errors of the listed classes", () => {
+      const [result, error] = neatCatch(
+        (): string => {
+          throw new ValidationError("invalid");
+        },
+        { catch: [ValidationError, NotFoundError] }
+      );
+
+      expect(result).toBeNull();
+      expect(error).toBeInstanceOf(ValidationError);
+
+      // Type check - error is narrowed to the listed classes
+      if (error instanceof ValidationError) {
+        const field: string = error.field;
+        expect(field).toBe("email");
+      } else if (error !== null) {
+        const notFound: NotFoundError = error;
+        expect(notFound).toBeInstanceOf(NotFoundError);
+      }
+    });
+
+    it("should rethrow errors of other classes", () => {
+      expect(() =>
+        neatCatch(
+          () => {
+            throw new TypeError("bug");
+          },
+          { catch: [ValidationError] }
+        )
+      ).toThrow(TypeError);
+    });
+
+    it("should reject with errors of other classes for async functions", async () => {
+      await expect(
+        neatCatch(
+          async () => {
+            throw new TypeError("bug");
+          },
+          { catch: [ValidationError] }
+        )
+      ).rejects.toThrow("bug");
+    });
+
+    it("should accept a predicate", async () => {
+      const isNotFound = (error: unknown): error is NotFoundError =>
+        error instanceof NotFoundError;
+
+      const [, error] = await neatCatch(
+        async () => {
+          throw new NotFoundError("missing");
+        },
+        { catch: isNotFound, errorTransformer: (e) => e.message }
+      );
+
+      expect(error).toBe("missing");
+    });
+  });
+
+  describe("promises and thenables", () => {
+    // A query builder style thenable that only implements then
+    const thenable = <T>(run: () => T) => ({
+      then<R1 = T, R2 = never>(
+        onFulfilled?: ((value: T) => R1 | PromiseLike<R1>) | null,
+        onRejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+      ): PromiseLike<R1 | R2> {
+        return new Promise<T>((resolve) => resolve(run())).then(
+          onFulfilled,
+          onRejected
+        );
+      },
+    });
+
+    it("should accept a promise directly", async () => {
+      expect(await neatCatch(Promise.resolve("success"))).toEqual([
+        "success",
+        null,
+      ]);
+
+      const [result, error] = await neatCatch(
+        Promise.reject(new Error("rejected"))
+      );
+      expect(result).toBeNull();
+      expect(error?.message).toBe("rejected");
+    });
+
+    it("should await thenables returned by functions", async () => {
+      const [rows, error] = await neatCatch(() => thenable(() => [1, 2]));
+
+      expect(rows).toEqual([1, 2]);
+      expect(error).toBeNull();
+    });
+
+    it("should accept a thenable directly with options", async () => {
+      const failing = thenable((): number => {
+        throw new Error("query failed");
+      });
+
+      expect(await neatCatch(failing, (err) => String(err))).toEqual([
+        null,
+        "Error: query failed",
+      ]);
+      expect(
+        await neatCatch(failing, {
+          catch: [TypeError],
+        }).catch((err: Error) => err.message)
+      ).toBe("query failed");
+    });
+
+    it("should catch errors thrown by then", async () => {
+      const broken = {
+        then() {
+          throw new Error("then failed");
+        },
+      };
+
+      const [, error] = await neatCatch(broken);
+      expect(error?.message).toBe("then failed");
+    });
+
+    it("should read then once and assimilate nested thenables", async () => {
+      let reads = 0;
+      const outer = {
+        get then() {
+          reads++;
+          return (resolve: (value: unknown) => void) =>
+            resolve(thenable(() => "inner"));
+        },
+      };
+
+      expect(await neatCatch(() => outer)).toEqual(["inner", null]);
+      expect(reads).toBe(1);
+    });
+
+    it("should ignore calls after the thenable settles", async () => {
+      const settlesTwice = {
+        then(resolve: (value: string) => void, reject: (err: unknown) => void) {
+          resolve("first");
+          reject(new Error("second"));
+          resolve("third");
+        },
+      };
+
+      expect(await neatCatch(settlesTwice)).toEqual(["first", null]);
+    });
+  });
+
   describe("type safety", () => {
     it("should preserve types for synchronous functions", () => {
       const [result, error] = neatCatch(() => 42);
@@ -273,6 +496,27 @@ describe("neatCatch", () => {
       }
     });
 
+    it("should preserve types for promises and thenables", async () => {
+      const [result] = await neatCatch(Promise.resolve({ id: 1 }));
+      if (result !== null) {
+        const obj: { id: number } = result;
+        expect(obj.id).toBe(1);
+      }
+
+      const [count, error] = await neatCatch(
+        () => ({ then: (resolve: (value: number) => void) => resolve(2) }),
+        (err) => String(err)
+      );
+      if (count !== null) {
+        const num: number = count;
+        expect(num).toBe(2);
+      }
+      if (error !== null) {
+        const message: string = error;
+        expect(message).toBeTypeOf("string");
+      }
+    });
+
     it("should handle generic error types with errorTransformer", () => {
       const [result, error] = neatCatch(
         (): void => {
@@ -322,6 +566,22 @@ describe("createNeatWrapper", () => {
     expect(result2).toBeNull();
     expect(error2).toBeInstanceOf(Error);
   });
+
+  it("should only catch the listed error classes", async () => {
+    class NotFoundError extends Error {}
+    const safeFind = createNeatWrapper(
+      async (id: number) => {
+        if (id === 0) throw new NotFoundError("missing");
+        if (id < 0) throw new RangeError("bad id");
+        return { id };
+      },
+      { catch: [NotFoundError] }
+    );
+
+    const [, error] = await safeFind(0);
+    expect(error).toBeInstanceOf(NotFoundError);
+    await expect(safeFind(-1)).rejects.toThrow(RangeError);
+  });
 });
 
 describe("neatCatchAll", () => {
@@ -352,6 +612,377 @@ describe("neatCatchAll", () => {
     expect(errors![1]).toBe("error2");
     expect(errors![2]).toBe("error3");
   });
+
+  it("should count falsy thrown values as errors", async () => {
+    const { results, errors } = await neatCatchAll([
+      () => Promise.reject(0),
+      () => Promise.reject(null),
+      () => Promise.resolve("result3"),
+    ]);
+
+    expect(results).toEqual([undefined, undefined, "result3"]);
+    expect(errors![0]).toBeInstanceOf(NonErrorThrown);
+    expect(errors![1]).toBeInstanceOf(NonErrorThrown);
+  });
+
+  it("should count failures even when the transformed error is falsy", async () => {
+    const { results, errors } = await neatCatchAll(
+      [() => Promise.reject(new Error("failed"))],
+      () => undefined
+    );
+
+    expect(results).toBeNull();
+    expect(errors).toHaveLength(1);
+  });
+
+  it("should accept the error transformer in an options object", async () => {
+    const { errors } = await neatCatchAll(
+      [() => Promise.reject(new Error("failed"))],
+      { errorTransformer: errorTransformers.toString }
+    );
+
+    expect(errors).toEqual(["failed"]);
+  });
+
+  it("should limit how many operations run at a time", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const operations = Array.from({ length: 10 }, (_, index) => async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 10 - index));
+      active--;
+      if (index % 3 === 0) throw new Error(`error${index}`);
+      return index;
+    });
+
+    const { results, errors } = await neatCatchAll(operations, {
+      concurrency: 3,
+    });
+
+    expect(maxActive).toBe(3);
+    expect(results).toEqual([
+      undefined,
+      1,
+      2,
+      undefined,
+      4,
+      5,
+      undefined,
+      7,
+      8,
+    ]);
+    expect(errors![0]).toEqual(new Error("error0"));
+    expect(errors![9]).toEqual(new Error("error9"));
+    expect(errors).toHaveLength(10);
+  });
+
+  it("should run every operation when concurrency is not a positive integer", async () => {
+    const operations = [async () => 1, async () => 2];
+
+    for (const concurrency of [NaN, 0, -1, 1.5]) {
+      expect(await neatCatchAll(operations, { concurrency })).toEqual({
+        results: [1, 2],
+        errors: null,
+      });
+    }
+  });
+
+  it("should stop scheduling operations once the signal aborts", async () => {
+    const controller = new AbortController();
+    const third = vi.fn(() => Promise.resolve("result3"));
+
+    const { results, errors } = await neatCatchAll(
+      [
+        () => Promise.resolve("result1"),
+        async () => {
+          controller.abort();
+          return "result2";
+        },
+        third,
+      ],
+      { concurrency: 1, signal: controller.signal }
+    );
+
+    expect(results).toEqual(["result1", "result2"]);
+    expect(errors![2]).toBeInstanceOf(AbortError);
+    expect(third).not.toHaveBeenCalled();
+  });
+
+  describe("keyed operations", () => {
+    it("should return results and errors by key", async () => {
+      const { results, errors } = await neatCatchAll({
+        users: () => Promise.resolve([{ id: 1 }]),
+        count: () => Promise.resolve(2),
+        posts: () => Promise.reject(new Error("posts failed")),
+      });
+
+      expect(results).toEqual({ users: [{ id: 1 }], count: 2 });
+      expect(errors).toEqual({ posts: new Error("posts failed") });
+
+      // Type check - each key keeps the type of its operation
+      if (results) {
+        const count: number | null = results.count;
+        const users: { id: number }[] | null = results.users;
+        expect(count).toBe(2);
+        expect(users).toHaveLength(1);
+      }
+    });
+
+    it("should return null errors when every operation succeeds", async () => {
+      const { results, errors } = await neatCatchAll({
+        a: () => Promise.resolve("a"),
+        b: () => Promise.resolve("b"),
+      });
+
+      expect(results).toEqual({ a: "a", b: "b" });
+      expect(errors).toBeNull();
+    });
+
+    it("should share options with the array form", async () => {
+      const { results, errors } = await neatCatchAll(
+        {
+          a: () => Promise.reject(new Error("a failed")),
+          b: () => Promise.reject(new Error("b failed")),
+        },
+        { errorTransformer: errorTransformers.toString, concurrency: 1 }
+      );
+
+      expect(results).toBeNull();
+      expect(errors).toEqual({ a: "a failed", b: "b failed" });
+    });
+  });
+
+  it("should report progress as operations settle", async () => {
+    const onProgress = vi.fn();
+
+    await neatCatchAll(
+      [
+        () => Promise.resolve("result1"),
+        () => Promise.reject(new Error("error2")),
+        () => Promise.resolve("result3"),
+      ],
+      { concurrency: 1, onProgress }
+    );
+
+    expect(onProgress.mock.calls).toEqual([
+      [1, 3, 0],
+      [2, 3, 1],
+      [3, 3, 1],
+    ]);
+  });
+});
+
+describe("neatCatchStream", () => {
+  const after = <T>(ms: number, value: T) =>
+    new Promise<T>((resolve) => setTimeout(resolve, ms, value));
+
+  it("should yield results in completion order", async () => {
+    const items = [];
+
+    for await (const item of neatCatchStream([
+      () => after(30, "slow"),
+      () => Promise.reject(new Error("failed")),
+      () => after(10, "fast"),
+    ])) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([
+      { index: 1, key: 1, result: [null, new Error("failed")] },
+      { index: 2, key: 2, result: ["fast", null] },
+      { index: 0, key: 0, result: ["slow", null] },
+    ]);
+  });
+
+  it("should yield keys for named operations", async () => {
+    const keys: string[] = [];
+
+    for await (const { key, result } of neatCatchStream({
+      users: () => after(20, ["user"]),
+      count: () => after(10, 1),
+    })) {
+      keys.push(key);
+      if (key === "count") {
+        // Type check - the result narrows with the key
+        const [count] = result;
+        expect(count).toBe(1);
+      }
+    }
+
+    expect(keys).toEqual(["count", "users"]);
+  });
+
+  it("should stop scheduling and abort in-flight operations when the loop exits early", async () => {
+    let slowSignal: AbortSignal | undefined;
+    const fourth = vi.fn(() => after(10, "fourth"));
+
+    for await (const item of neatCatchStream(
+      [
+        () => after(10, "first"),
+        (signal: AbortSignal) => {
+          slowSignal = signal;
+          return after(50, "second");
+        },
+        () => after(50, "third"),
+        fourth,
+      ],
+      { concurrency: 2 }
+    )) {
+      expect(item.index).toBe(0);
+      break;
+    }
+
+    expect(slowSignal?.aborted).toBe(true);
+    expect(fourth).not.toHaveBeenCalled();
+  });
+
+  it("should stop reporting progress once the loop exits early", async () => {
+    const onProgress = vi.fn();
+
+    for await (const item of neatCatchStream(
+      [1, 2, 3, 4].map((n) => () => after(5, n)),
+      { concurrency: 1, onProgress }
+    )) {
+      expect(item.index).toBe(0);
+      break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(onProgress.mock.calls).toEqual([[1, 4, 0]]);
+  });
+});
+
+describe("neatCatchFailFast", () => {
+  it("should return all results when every operation succeeds", async () => {
+    const [results, error] = await neatCatchFailFast([
+      () => Promise.resolve("result1"),
+      () => Promise.resolve(2),
+    ]);
+
+    expect(results).toEqual(["result1", 2]);
+    expect(error).toBeNull();
+  });
+
+  it("should return the first error without waiting for the rest", async () => {
+    let slowSignal: AbortSignal | undefined;
+
+    const [results, error] = await neatCatchFailFast(
+      [
+        (signal) => {
+          slowSignal = signal;
+          return new Promise(() => {});
+        },
+        () => Promise.reject(new Error("failed")),
+      ],
+      errorTransformers.toString
+    );
+
+    expect(results).toBeNull();
+    expect(error).toBe("failed");
+    expect(slowSignal?.aborted).toBe(true);
+  });
+
+  it("should skip operations that have not started", async () => {
+    const third = vi.fn(() => Promise.resolve("result3"));
+
+    const [, error] = await neatCatchFailFast(
+      [
+        () => Promise.resolve("result1"),
+        () => Promise.reject(new Error("failed")),
+        third,
+      ],
+      { concurrency: 1 }
+    );
+
+    expect(error).toEqual(new Error("failed"));
+    expect(third).not.toHaveBeenCalled();
+  });
+});
+
+describe("neatCatchAny", () => {
+  it("should return the first success and abort the rest", async () => {
+    let slowSignal: AbortSignal | undefined;
+
+    const [result, error] = await neatCatchAny([
+      () => Promise.reject(new Error("mirror1 failed")),
+      (signal) => {
+        slowSignal = signal;
+        return new Promise<string>(() => {});
+      },
+      () =>
+        new Promise<string>((resolve) => setTimeout(resolve, 10, "mirror3")),
+    ]);
+
+    expect(result).toBe("mirror3");
+    expect(error).toBeNull();
+    expect(slowSignal?.aborted).toBe(true);
+  });
+
+  it("should try operations in order with a concurrency of 1", async () => {
+    const third = vi.fn(() => Promise.resolve("mirror3"));
+
+    const [result] = await neatCatchAny(
+      [
+        () => Promise.reject(new Error("mirror1 failed")),
+        () => Promise.resolve("mirror2"),
+        third,
+      ],
+      { concurrency: 1 }
+    );
+
+    expect(result).toBe("mirror2");
+    expect(third).not.toHaveBeenCalled();
+  });
+
+  it("should return every error in an AggregateError when nothing succeeds", async () => {
+    const [result, error] = await neatCatchAny(
+      [
+        () => Promise.reject(new Error("mirror1 failed")),
+        () => Promise.reject(new Error("mirror2 failed")),
+      ],
+      errorTransformers.toString
+    );
+
+    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error!.errors).toEqual(["mirror1 failed", "mirror2 failed"]);
+  });
+});
+
+describe("neatCatchRace", () => {
+  it("should return the first operation to succeed", async () => {
+    const [result, error] = await neatCatchRace([
+      () => new Promise((resolve) => setTimeout(resolve, 50, "slow")),
+      () => new Promise((resolve) => setTimeout(resolve, 10, "fast")),
+    ]);
+
+    expect(result).toBe("fast");
+    expect(error).toBeNull();
+  });
+
+  it("should return the first operation to fail", async () => {
+    let slowSignal: AbortSignal | undefined;
+
+    const [result, error] = await neatCatchRace([
+      (signal) => {
+        slowSignal = signal;
+        return new Promise((resolve) => setTimeout(resolve, 50, "slow"));
+      },
+      () => Promise.reject(new Error("fast failure")),
+    ]);
+
+    expect(result).toBeNull();
+    expect(error).toEqual(new Error("fast failure"));
+    expect(slowSignal?.aborted).toBe(true);
+  });
+
+  it("should return an error when there is nothing to race", async () => {
+    const [result, error] = await neatCatchRace([]);
+
+    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(Error);
+  });
 });
 
 describe("neatCatchRetry", () => {
@@ -536,259 +1167,2350 @@ describe("neatCatchRetry", () => {
     expect(error).toBe(mockError);
     expect(mockFn).toHaveBeenCalledTimes(3); // Initial + 2 retries (not the full 5)
   });
-});
 
-describe("errorTransformers", () => {
-  describe("toString", () => {
-    it("should extract message from Error objects", () => {
-      const error = new Error("Test error message");
-      const result = errorTransformers.toString(error);
-      expect(result).toBe("Test error message");
-    });
+  it("should retry falsy thrown values", async () => {
+    const mockFn = vi
+      .fn()
+      .mockRejectedValueOnce(undefined)
+      .mockResolvedValueOnce("success");
 
-    it("should return string errors as-is", () => {
-      const error = "String error";
-      const result = errorTransformers.toString(error);
-      expect(result).toBe("String error");
-    });
+    const [result, error] = await neatCatchRetry(mockFn, { delay: 10 });
 
-    it("should extract message from error-like objects", () => {
-      const error = { message: "Error-like object message" };
-      const result = errorTransformers.toString(error);
-      expect(result).toBe("Error-like object message");
-    });
+    expect(result).toBe("success");
+    expect(error).toBeNull();
+    expect(mockFn).toHaveBeenCalledTimes(2);
+  });
 
-    it("should convert other types to string", () => {
-      expect(errorTransformers.toString(123)).toBe("123");
-      expect(errorTransformers.toString(null)).toBe("null");
-      expect(errorTransformers.toString(undefined)).toBe("undefined");
-      expect(errorTransformers.toString({})).toBe("[object Object]");
-    });
+  it("should rethrow errors outside the catch filter without retrying", async () => {
+    class RetryableError extends Error {}
+    const mockFn = vi
+      .fn()
+      .mockRejectedValueOnce(new RetryableError("retry me"))
+      .mockRejectedValueOnce(new TypeError("bug"));
+
+    await expect(
+      neatCatchRetry(mockFn, { delay: 10, catch: [RetryableError] })
+    ).rejects.toThrow(TypeError);
+    expect(mockFn).toHaveBeenCalledTimes(2);
   });
 
-  describe("toObject", () => {
-    it("should convert Error objects to structured format", () => {
-      const error = new Error("Test error");
-      error.stack = "test stack";
-      error.name = "TestError";
+  it("should clear the attempt timeout when rethrowing", async () => {
+    vi.useFakeTimers();
+    try {
+      await expect(
+        neatCatchRetry(
+          (): Promise<never> => {
+            throw new RangeError("bug");
+          },
+          { catch: [TypeError], timeout: 2000 }
+        )
+      ).rejects.toThrow(RangeError);
+
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
 
-      const result = errorTransformers.toObject(error);
+  it("should narrow the error to the caught classes", async () => {
+    class RetryableError extends Error {
+      retryable = true;
+    }
+    const mockFn = vi.fn().mockRejectedValue(new RetryableError("retry me"));
 
-      expect(result).toEqual({
-        message: "Test error",
-        stack: "test stack",
-        name: "TestError",
-      });
+    const [, error] = await neatCatchRetry(mockFn, {
+      maxRetries: 1,
+      delay: 10,
+      catch: [RetryableError],
     });
 
-    it("should include cause if present", () => {
-      const cause = new Error("Root cause");
-      const error = new Error("Test error", { cause });
+    expect(error).toBeInstanceOf(RetryableError);
+    if (error instanceof RetryableError) {
+      const retryable: boolean = error.retryable;
+      expect(retryable).toBe(true);
+    }
+  });
 
-      const result = errorTransformers.toObject(error);
+  it("should return attempt timeouts regardless of the catch filter", async () => {
+    class RetryableError extends Error {}
 
-      expect(result.cause).toBe(cause);
+    const [, error] = await neatCatchRetry(() => new Promise(() => {}), {
+      maxRetries: 0,
+      timeout: 20,
+      catch: [RetryableError],
     });
 
-    it("should handle error-like objects", () => {
-      const error = {
-        message: "Custom error",
-        stack: "custom stack",
-        name: "CustomError",
-        cause: "some cause",
-      };
+    expect(error).toBeInstanceOf(TimeoutError);
+  });
 
-      const result = errorTransformers.toObject(error);
+  it("should pass an AbortSignal to the function", async () => {
+    const mockFn = vi.fn().mockResolvedValue("success");
 
-      expect(result).toEqual(error);
-    });
+    await neatCatchRetry(mockFn);
 
-    it("should handle primitive values", () => {
-      expect(errorTransformers.toObject("string error")).toEqual({
-        message: "string error",
-      });
+    expect(mockFn.mock.calls[0][0]).toBeInstanceOf(AbortSignal);
+  });
 
-      expect(errorTransformers.toObject(123)).toEqual({
-        message: "123",
-      });
+  it("should not call the function when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort("gone");
+    const mockFn = vi.fn().mockResolvedValue("success");
+
+    const [result, error] = await neatCatchRetry(mockFn, {
+      signal: controller.signal,
     });
+
+    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(AbortError);
+    expect((error as AbortError).cause).toBe("gone");
+    expect(mockFn).not.toHaveBeenCalled();
   });
 
-  describe("withTimestamp", () => {
-    it("should wrap error with timestamp information", () => {
-      const error = new Error("Test error");
-      const result = errorTransformers.withTimestamp(error);
+  it("should stop retrying when aborted during the backoff delay", async () => {
+    const controller = new AbortController();
+    const mockFn = vi.fn().mockRejectedValue(new Error("error"));
 
-      expect(result.error).toBe(error);
-      expect(result).toHaveProperty("timestamp");
-      expect(result).toHaveProperty("isoString");
-      expect(typeof result.timestamp).toBe("number");
-      expect(result.isoString).toBe(new Date(result.timestamp).toISOString());
+    const resultPromise = neatCatchRetry(mockFn, {
+      delay: 10_000,
+      signal: controller.signal,
     });
+    setTimeout(() => controller.abort(), 10);
+
+    const [result, error] = await resultPromise;
+
+    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(AbortError);
+    expect(mockFn).toHaveBeenCalledTimes(1);
   });
 
-  describe("fetchError", () => {
-    it("should handle Response error objects", () => {
-      const error = {
-        status: 404,
-        statusText: "Not Found",
-        url: "https://example.com/api",
-      };
+  it("should abort the in-flight attempt and its signal", async () => {
+    const controller = new AbortController();
+    let attemptSignal: AbortSignal | undefined;
 
-      const result = errorTransformers.fetchError(error);
+    const resultPromise = neatCatchRetry(
+      (signal) => {
+        attemptSignal = signal;
+        return new Promise(() => {});
+      },
+      { signal: controller.signal }
+    );
+    setTimeout(() => controller.abort(), 10);
 
-      expect(result).toEqual({
-        message: "HTTP error 404",
-        status: 404,
-        statusText: "Not Found",
-        url: "https://example.com/api",
-        isNetworkError: false,
-        isTimeout: false,
-      });
+    const [result, error] = await resultPromise;
+
+    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(AbortError);
+    expect(attemptSignal?.aborted).toBe(true);
+  });
+
+  it("should fail an attempt that exceeds the per-attempt timeout and retry it", async () => {
+    const mockFn = vi
+      .fn()
+      .mockImplementationOnce(() => new Promise(() => {}))
+      .mockResolvedValueOnce("success");
+
+    const [result, error] = await neatCatchRetry(mockFn, {
+      delay: 10,
+      timeout: 20,
     });
 
-    it("should handle timeout errors", () => {
-      const error = {
-        status: 408,
-        statusText: "Request Timeout",
-      };
+    expect(result).toBe("success");
+    expect(error).toBeNull();
+    expect(mockFn).toHaveBeenCalledTimes(2);
+    expect(mockFn.mock.calls[0][0].aborted).toBe(true);
+  });
 
-      const result = errorTransformers.fetchError(error);
+  it("should return a TimeoutError when the last attempt times out", async () => {
+    const mockFn = vi.fn(() => new Promise<never>(() => {}));
 
-      expect(result).toEqual({
-        message: "HTTP error 408",
-        status: 408,
-        statusText: "Request Timeout",
-        isNetworkError: false,
-        isTimeout: true,
-      });
+    const [result, error] = await neatCatchRetry(mockFn, {
+      maxRetries: 0,
+      timeout: 20,
     });
 
-    it("should handle network errors (TypeError)", () => {
-      const error = new TypeError("Failed to fetch");
-      const result = errorTransformers.fetchError(error);
+    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).timeout).toBe(20);
+  });
 
-      expect(result).toEqual({
-        message: "Failed to fetch",
-        isNetworkError: true,
-        isTimeout: false,
+  it("should stop retrying once the deadline is exceeded", async () => {
+    const mockFn = vi.fn().mockRejectedValue(new Error("error"));
+
+    const [result, error] = await neatCatchRetry(mockFn, {
+      maxRetries: 5,
+      delay: 30,
+      backoff: "linear",
+      deadline: 50,
+    });
+
+    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).message).toBe(
+      "Retry deadline of 50ms exceeded"
+    );
+    expect(mockFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should transform cancellations and deadline errors", async () => {
+    const mockFn = vi.fn().mockRejectedValue(new Error("error"));
+
+    const [, abortError] = await neatCatchRetry(mockFn, {
+      signal: AbortSignal.abort(),
+      errorTransformer: errorTransformers.toString,
+    });
+    const [, deadlineError] = await neatCatchRetry(mockFn, {
+      delay: 30,
+      deadline: 10,
+      errorTransformer: errorTransformers.toString,
+    });
+
+    // Type check - the transformed error stays a string
+    const messages: (string | null)[] = [abortError, deadlineError];
+    expect(messages).toEqual([
+      "The operation was aborted",
+      "Retry deadline of 10ms exceeded",
+    ]);
+  });
+
+  describe("lifecycle hooks", () => {
+    it("should not write to the console", async () => {
+      const logSpy = vi.spyOn(console, "log");
+      const mockFn = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("error"))
+        .mockResolvedValueOnce("success");
+
+      await neatCatchRetry(mockFn, { delay: 10 });
+
+      expect(logSpy).not.toHaveBeenCalled();
+      logSpy.mockRestore();
+    });
+
+    it("should call onRetry before each retry and onSuccess once", async () => {
+      const mockError = new Error("error");
+      const mockFn = vi
+        .fn()
+        .mockRejectedValueOnce(mockError)
+        .mockRejectedValueOnce(mockError)
+        .mockResolvedValueOnce("success");
+      const onRetry = vi.fn();
+      const onSuccess = vi.fn();
+      const onGiveUp = vi.fn();
+
+      await neatCatchRetry(mockFn, {
+        delay: 10,
+        backoff: "linear",
+        onRetry,
+        onSuccess,
+        onGiveUp,
+      });
+
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenNthCalledWith(1, {
+        attempt: 1,
+        error: mockError,
+        delay: 10,
+        elapsed: expect.any(Number),
       });
+      expect(onRetry).toHaveBeenNthCalledWith(2, {
+        attempt: 2,
+        error: mockError,
+        delay: 20,
+        elapsed: expect.any(Number),
+      });
+      expect(onSuccess).toHaveBeenCalledWith({
+        attempt: 3,
+        elapsed: expect.any(Number),
+      });
+      expect(onGiveUp).not.toHaveBeenCalled();
     });
 
-    it("should handle timeout errors (TimeoutError)", () => {
-      const error = new Error("Request timeout");
-      error.name = "TimeoutError";
+    it("should call onGiveUp with the untransformed error", async () => {
+      const mockError = new Error("error");
+      const mockFn = vi.fn().mockRejectedValue(mockError);
+      const onGiveUp = vi.fn();
 
-      const result = errorTransformers.fetchError(error);
+      const [, error] = await neatCatchRetry(mockFn, {
+        maxRetries: 1,
+        delay: 10,
+        errorTransformer: errorTransformers.toString,
+        onGiveUp,
+      });
 
-      expect(result).toEqual({
-        message: "Request timeout",
-        isNetworkError: true,
-        isTimeout: true,
+      expect(error).toBe("error");
+      expect(onGiveUp).toHaveBeenCalledTimes(1);
+      expect(onGiveUp).toHaveBeenCalledWith({
+        attempt: 2,
+        error: mockError,
+        elapsed: expect.any(Number),
       });
     });
 
-    it("should handle regular Error objects", () => {
-      const error = new Error("Generic error");
-      const result = errorTransformers.fetchError(error);
+    it("should ignore hooks that throw", async () => {
+      const mockFn = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("error"))
+        .mockResolvedValueOnce("success");
 
-      expect(result).toEqual({
-        message: "Generic error",
-        isNetworkError: false,
-        isTimeout: false,
+      const [result, error] = await neatCatchRetry(mockFn, {
+        delay: 10,
+        onRetry: () => {
+          throw new Error("hook error");
+        },
+        onSuccess: () => {
+          throw new Error("hook error");
+        },
       });
+
+      expect(result).toBe("success");
+      expect(error).toBeNull();
     });
 
-    it("should handle other error types", () => {
-      const result = errorTransformers.fetchError("string error");
+    it("should append stats to the result when withStats is set", async () => {
+      const mockFn = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("error"))
+        .mockResolvedValueOnce("success");
 
-      expect(result).toEqual({
-        message: "string error",
-        isNetworkError: false,
-        isTimeout: false,
+      const [result, error, stats] = await neatCatchRetry(mockFn, {
+        delay: 10,
+        withStats: true,
+      });
+
+      expect(result).toBe("success");
+      expect(error).toBeNull();
+      expect(stats.attempts).toBe(2);
+      expect(stats.duration).toBeGreaterThanOrEqual(9);
+    });
+
+    it("should append stats to failed results", async () => {
+      const mockFn = vi.fn().mockRejectedValue(new Error("error"));
+
+      const [result, , stats] = await neatCatchRetry(mockFn, {
+        maxRetries: 0,
+        withStats: true,
       });
+
+      expect(result).toBeNull();
+      expect(stats).toEqual({ attempts: 1, duration: expect.any(Number) });
     });
   });
 
-  describe("withContext", () => {
-    it("should wrap error with context information", () => {
-      const context = { userId: 123, requestId: "abc" };
-      const error = new Error("Test error");
+  describe("delay strategies", () => {
+    const sleepDelays = (spy: { mock: { calls: unknown[][] } }) =>
+      spy.mock.calls.map((call) => call[1]);
 
-      const transformer = errorTransformers.withContext(context);
-      const result = transformer(error);
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
 
-      expect(result).toEqual({
-        userId: 123,
-        requestId: "abc",
-        error: error,
+    it("should use a custom backoff function", async () => {
+      const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+      const backoff = vi.fn((attempt: number) => attempt * 5);
+      const mockError = new Error("error");
+      const mockFn = vi.fn().mockRejectedValue(mockError);
+
+      await neatCatchRetry(mockFn, { maxRetries: 2, backoff });
+
+      expect(backoff).toHaveBeenCalledWith(1, mockError);
+      expect(backoff).toHaveBeenCalledWith(2, mockError);
+      expect(sleepDelays(setTimeoutSpy)).toEqual([5, 10]);
+    });
+
+    it("should cap delays at maxDelay", async () => {
+      const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+      const mockFn = vi.fn().mockRejectedValue(new Error("error"));
+
+      await neatCatchRetry(mockFn, {
+        maxRetries: 3,
+        delay: 5,
+        maxDelay: 12,
       });
+
+      expect(sleepDelays(setTimeoutSpy)).toEqual([5, 10, 12]);
     });
-  });
 
-  describe("toSimpleError", () => {
-    it("should extract message from Error objects", () => {
-      const error = new Error("Test error");
-      const result = errorTransformers.toSimpleError(error);
+    it("should apply full jitter", async () => {
+      vi.spyOn(Math, "random").mockReturnValue(0.5);
+      const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+      const mockFn = vi.fn().mockRejectedValue(new Error("error"));
 
-      expect(result).toEqual({
-        message: "Test error",
+      await neatCatchRetry(mockFn, {
+        maxRetries: 2,
+        delay: 10,
+        jitter: "full",
       });
+
+      expect(sleepDelays(setTimeoutSpy)).toEqual([5, 10]);
     });
 
-    it("should convert other types to message string", () => {
-      const result = errorTransformers.toSimpleError("string error");
+    it("should apply equal jitter", async () => {
+      vi.spyOn(Math, "random").mockReturnValue(0);
+      const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+      const mockFn = vi.fn().mockRejectedValue(new Error("error"));
 
-      expect(result).toEqual({
-        message: "string error",
+      await neatCatchRetry(mockFn, {
+        maxRetries: 2,
+        delay: 10,
+        jitter: "equal",
       });
+
+      expect(sleepDelays(setTimeoutSpy)).toEqual([5, 10]);
     });
-  });
 
-  describe("forLogging", () => {
-    it("should create log-friendly error object", () => {
-      const error = new Error("Test error");
-      error.stack = "test stack";
-      error.name = "TestError";
+    it("should apply decorrelated jitter based on the previous delay", async () => {
+      vi.spyOn(Math, "random").mockReturnValue(1);
+      const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+      const mockFn = vi.fn().mockRejectedValue(new Error("error"));
 
-      const result = errorTransformers.forLogging(error);
+      await neatCatchRetry(mockFn, {
+        maxRetries: 3,
+        delay: 2,
+        jitter: "decorrelated",
+        maxDelay: 30,
+      });
 
-      expect(result).toEqual({
-        message: "Test error",
-        stack: "test stack",
-        name: "TestError",
-        timestamp: expect.any(Number),
-        environment: expect.any(String),
+      expect(sleepDelays(setTimeoutSpy)).toEqual([6, 18, 30]);
+    });
+
+    it("should honor the Retry-After header of Response errors", async () => {
+      const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+      const response = new Response(null, {
+        status: 503,
+        headers: { "Retry-After": "0.02" },
       });
+      const mockFn = vi
+        .fn()
+        .mockRejectedValueOnce(response)
+        .mockResolvedValueOnce("success");
+
+      const [result] = await neatCatchRetry(mockFn, {
+        delay: 10_000,
+        retryAfter: true,
+      });
+
+      expect(result).toBe("success");
+      expect(sleepDelays(setTimeoutSpy)).toEqual([20]);
     });
 
-    it("should include environment if available", () => {
-      // Mock process.env.NODE_ENV
-      const originalEnv = process.env.NODE_ENV;
-      process.env.NODE_ENV = "test";
+    it("should fall back to the backoff when there is no Retry-After", async () => {
+      const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+      const mockFn = vi
+        .fn()
+        .mockRejectedValueOnce({ status: 503, headers: {} })
+        .mockResolvedValueOnce("success");
 
-      const error = new Error("Test error");
-      const result = errorTransformers.forLogging(error);
+      await neatCatchRetry(mockFn, { delay: 5, retryAfter: true });
 
-      expect(result.environment).toBe("test");
+      expect(sleepDelays(setTimeoutSpy)).toEqual([5]);
+    });
 
-      // Restore original value
-      process.env.NODE_ENV = originalEnv;
+    it("should use a custom retryAfter function", async () => {
+      const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+      const mockFn = vi
+        .fn()
+        .mockRejectedValueOnce({ retryInMs: 7 })
+        .mockResolvedValueOnce("success");
+
+      await neatCatchRetry(mockFn, {
+        delay: 10_000,
+        retryAfter: (error) => (error as { retryInMs: number }).retryInMs,
+      });
+
+      expect(sleepDelays(setTimeoutSpy)).toEqual([7]);
     });
+  });
+});
 
-    it("should work without process.env", () => {
-      // Temporarily remove process
-      const originalProcess = global.process;
-      // @ts-ignore
-      delete global.process;
+describe("neatCatchTimeout", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
 
-      const error = new Error("Test error");
-      const result = errorTransformers.forLogging(error);
+  it("should return data when the operation settles in time", async () => {
+    const [result, error] = await neatCatchTimeout(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return "success";
+    }, 1000);
 
-      expect(result).not.toHaveProperty("environment");
+    expect(result).toBe("success");
+    expect(error).toBeNull();
+  });
 
-      // Restore process
-      global.process = originalProcess;
+  it("should handle synchronous functions", async () => {
+    const [result, error] = await neatCatchTimeout(() => 42, 1000);
+
+    expect(result).toBe(42);
+    expect(error).toBeNull();
+  });
+
+  it("should return errors thrown by the operation", async () => {
+    const [result, error] = await neatCatchTimeout(async () => {
+      throw new Error("operation error");
+    }, 1000);
+
+    expect(result).toBeNull();
+    expect((error as Error).message).toBe("operation error");
+  });
+
+  it("should return a TimeoutError and abort the signal when the limit is reached", async () => {
+    let operationSignal: AbortSignal | undefined;
+
+    const [result, error] = await neatCatchTimeout((signal) => {
+      operationSignal = signal;
+      return new Promise(() => {});
+    }, 20);
+
+    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).timeout).toBe(20);
+    expect(operationSignal?.aborted).toBe(true);
+  });
+
+  it("should be classified as a timeout by errorTransformers.fetchError", async () => {
+    const [, error] = await neatCatchTimeout(() => new Promise(() => {}), 20, {
+      errorTransformer: errorTransformers.fetchError,
+      message: "Too slow",
+    });
+
+    expect(error).toEqual({
+      message: "Too slow",
+      isNetworkError: true,
+      isTimeout: true,
+    });
+  });
+
+  it("should clear its timer once the operation settles", async () => {
+    vi.useFakeTimers();
+
+    await neatCatchTimeout(() => Promise.resolve("success"), 1000);
+
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("should return an AbortError when the external signal aborts", async () => {
+    const controller = new AbortController();
+    const resultPromise = neatCatchTimeout(() => new Promise(() => {}), 1000, {
+      signal: controller.signal,
+    });
+    controller.abort("cancelled");
+
+    const [result, error] = await resultPromise;
+
+    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(AbortError);
+    expect((error as AbortError).cause).toBe("cancelled");
+  });
+
+  it("should not call the function when the signal is already aborted", async () => {
+    const mockFn = vi.fn().mockResolvedValue("success");
+
+    const [result, error] = await neatCatchTimeout(mockFn, 1000, {
+      signal: AbortSignal.abort("cancelled"),
+    });
+
+    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(AbortError);
+    expect(mockFn).not.toHaveBeenCalled();
+  });
+});
+
+describe("errorTransformers", () => {
+  describe("toString", () => {
+    it("should extract message from Error objects", () => {
+      const error = new Error("Test error message");
+      const result = errorTransformers.toString(error);
+      expect(result).toBe("Test error message");
+    });
+
+    it("should return string errors as-is", () => {
+      const error = "String error";
+      const result = errorTransformers.toString(error);
+      expect(result).toBe("String error");
+    });
+
+    it("should extract message from error-like objects", () => {
+      const error = { message: "Error-like object message" };
+      const result = errorTransformers.toString(error);
+      expect(result).toBe("Error-like object message");
+    });
+
+    it("should convert other types to string", () => {
+      expect(errorTransformers.toString(123)).toBe("123");
+      expect(errorTransformers.toString(null)).toBe("null");
+      expect(errorTransformers.toString(undefined)).toBe("undefined");
+      expect(errorTransformers.toString({})).toBe("[object Object]");
+    });
+  });
+
+  describe("toObject", () => {
+    it("should convert Error objects to structured format", () => {
+      const error = new Error("Test error");
+      error.stack = "test stack";
+      error.name = "TestError";
+
+      const result = errorTransformers.toObject(error);
+
+      expect(result).toEqual({
+        message: "Test error",
+        stack: "test stack",
+        name: "TestError",
+      });
+    });
+
+    it("should include cause if present", () => {
+      const cause = new Error("Root cause");
+      const error = new Error("Test error", { cause });
+
+      const result = errorTransformers.toObject(error);
+
+      expect(result.cause).toBe(cause);
+    });
+
+    it("should handle error-like objects", () => {
+      const error = {
+        message: "Custom error",
+        stack: "custom stack",
+        name: "CustomError",
+        cause: "some cause",
+      };
+
+      const result = errorTransformers.toObject(error);
+
+      expect(result).toEqual(error);
+    });
+
+    it("should handle primitive values", () => {
+      expect(errorTransformers.toObject("string error")).toEqual({
+        message: "string error",
+      });
+
+      expect(errorTransformers.toObject(123)).toEqual({
+        message: "123",
+      });
+    });
+  });
+
+  describe("withTimestamp", () => {
+    it("should wrap error with timestamp information", () => {
+      const error = new Error("Test error");
+      const result = errorTransformers.withTimestamp(error);
+
+      expect(result.error).toBe(error);
+      expect(result).toHaveProperty("timestamp");
+      expect(result).toHaveProperty("isoString");
+      expect(typeof result.timestamp).toBe("number");
+      expect(result.isoString).toBe(new Date(result.timestamp).toISOString());
+    });
+  });
+
+  describe("fetchError", () => {
+    it("should handle Response error objects", () => {
+      const error = {
+        status: 404,
+        statusText: "Not Found",
+        url: "https://example.com/api",
+      };
+
+      const result = errorTransformers.fetchError(error);
+
+      expect(result).toEqual({
+        message: "HTTP error 404",
+        status: 404,
+        statusText: "Not Found",
+        url: "https://example.com/api",
+        isNetworkError: false,
+        isTimeout: false,
+      });
+    });
+
+    it("should handle timeout errors", () => {
+      const error = {
+        status: 408,
+        statusText: "Request Timeout",
+      };
+
+      const result = errorTransformers.fetchError(error);
+
+      expect(result).toEqual({
+        message: "HTTP error 408",
+        status: 408,
+        statusText: "Request Timeout",
+        isNetworkError: false,
+        isTimeout: true,
+      });
+    });
+
+    it("should handle network errors (TypeError)", () => {
+      const error = new TypeError("Failed to fetch");
+      const result = errorTransformers.fetchError(error);
+
+      expect(result).toEqual({
+        message: "Failed to fetch",
+        isNetworkError: true,
+        isTimeout: false,
+      });
+    });
+
+    it("should handle timeout errors (TimeoutError)", () => {
+      const error = new Error("Request timeout");
+      error.name = "TimeoutError";
+
+      const result = errorTransformers.fetchError(error);
+
+      expect(result).toEqual({
+        message: "Request timeout",
+        isNetworkError: true,
+        isTimeout: true,
+      });
+    });
+
+    it("should handle regular Error objects", () => {
+      const error = new Error("Generic error");
+      const result = errorTransformers.fetchError(error);
+
+      expect(result).toEqual({
+        message: "Generic error",
+        isNetworkError: false,
+        isTimeout: false,
+      });
+    });
+
+    it("should handle other error types", () => {
+      const result = errorTransformers.fetchError("string error");
+
+      expect(result).toEqual({
+        message: "string error",
+        isNetworkError: false,
+        isTimeout: false,
+      });
+    });
+  });
+
+  describe("withContext", () => {
+    it("should wrap error with context information", () => {
+      const context = { userId: 123, requestId: "abc" };
+      const error = new Error("Test error");
+
+      const transformer = errorTransformers.withContext(context);
+      const result = transformer(error);
+
+      expect(result).toEqual({
+        userId: 123,
+        requestId: "abc",
+        error: error,
+      });
+    });
+  });
+
+  describe("toSimpleError", () => {
+    it("should extract message from Error objects", () => {
+      const error = new Error("Test error");
+      const result = errorTransformers.toSimpleError(error);
+
+      expect(result).toEqual({
+        message: "Test error",
+      });
+    });
+
+    it("should convert other types to message string", () => {
+      const result = errorTransformers.toSimpleError("string error");
+
+      expect(result).toEqual({
+        message: "string error",
+      });
+    });
+  });
+
+  describe("forLogging", () => {
+    it("should create log-friendly error object", () => {
+      const error = new Error("Test error");
+      error.stack = "test stack";
+      error.name = "TestError";
+
+      const result = errorTransformers.forLogging(error);
+
+      expect(result).toEqual({
+        message: "Test error",
+        stack: "test stack",
+        name: "TestError",
+        timestamp: expect.any(Number),
+        environment: expect.any(String),
+      });
+    });
+
+    it("should include environment if available", () => {
+      // Mock process.env.NODE_ENV
+      const originalEnv = process.env.NODE_ENV;
+      process.env.NODE_ENV = "test";
+
+      const error = new Error("Test error");
+      const result = errorTransformers.forLogging(error);
+
+      expect(result.environment).toBe("test");
+
+      // Restore original value
+      process.env.NODE_ENV = originalEnv;
+    });
+
+    it("should work without process.env", () => {
+      // Temporarily remove process
+      const originalProcess = global.process;
+      // @ts-ignore
+      delete global.process;
+
+      const error = new Error("Test error");
+      const result = errorTransformers.forLogging(error);
+
+      expect(result).not.toHaveProperty("environment");
+
+      // Restore process
+      global.process = originalProcess;
+    });
+  });
+});
+
+describe("neatResult", () => {
+  const ok = neatCatch(() => 21);
+  const err = neatCatch((): number => {
+    throw new Error("failed");
+  });
+
+  it("should narrow results with isOk and isErr", () => {
+    expect(neatResult.isOk(ok)).toBe(true);
+    expect(neatResult.isErr(ok)).toBe(false);
+    expect(neatResult.isOk(err)).toBe(false);
+    expect(neatResult.isErr(err)).toBe(true);
+
+    if (neatResult.isOk(ok)) {
+      const num: number = ok[0];
+      expect(num).toBe(21);
+    }
+  });
+
+  it("should map data and errors", () => {
+    expect(neatResult.map(ok, (n) => n * 2)).toEqual([42, null]);
+    expect(neatResult.map(err, (n) => n * 2)).toEqual([null, err[1]]);
+    expect(neatResult.mapError(err, (e) => e.message)).toEqual([
+      null,
+      "failed",
+    ]);
+    expect(neatResult.mapError(ok, (e) => e.message)).toEqual([21, null]);
+  });
+
+  it("should infer data and error types from the result", () => {
+    const [doubled, error] = neatResult.map(ok, (n) => n * 2);
+
+    // Type check - data is number | null and error is Error | null
+    if (error === null) {
+      const num: number | null = doubled;
+      expect(num).toBe(42);
+    } else {
+      const e: Error = error;
+      expect(e).toBeInstanceOf(Error);
+    }
+  });
+
+  it("should chain operations returning results", () => {
+    const half = (n: number) =>
+      n % 2 === 0
+        ? neatCatch(() => n / 2)
+        : ([null, "odd"] as NeatCatchResult<number, string>);
+
+    expect(neatResult.andThen(ok, half)).toEqual([null, "odd"]);
+    expect(
+      neatResult.flatMap(
+        neatResult.map(ok, (n) => n * 2),
+        half
+      )
+    ).toEqual([21, null]);
+    expect(neatResult.andThen(err, half)).toEqual([null, err[1]]);
+  });
+
+  it("should chain async operations", async () => {
+    const result = await neatResult.andThenAsync(
+      neatCatch(async () => "1"),
+      (text) => neatCatch(async () => Number(text) + 1)
+    );
+
+    expect(result).toEqual([2, null]);
+  });
+
+  it("should unwrap results", () => {
+    expect(neatResult.unwrap(ok)).toBe(21);
+    expect(() => neatResult.unwrap(err)).toThrow("failed");
+    expect(neatResult.unwrapOr(err, 0)).toBe(0);
+    expect(neatResult.unwrapOrElse(err, (e) => e.message)).toBe("failed");
+    expect(neatResult.unwrapOrElse(ok, (e) => e.message)).toBe(21);
+  });
+
+  it("should match both outcomes", () => {
+    const handlers = {
+      ok: (n: number) => `ok: ${n}`,
+      err: (e: Error) => `err: ${e.message}`,
+    };
+
+    expect(neatResult.match(ok, handlers)).toBe("ok: 21");
+    expect(neatResult.match(err, handlers)).toBe("err: failed");
+  });
+
+  it("should create results from nullable values", () => {
+    expect(neatResult.fromNullable("value", "missing")).toEqual([
+      "value",
+      null,
+    ]);
+    expect(neatResult.fromNullable(0, "missing")).toEqual([0, null]);
+    expect(neatResult.fromNullable(undefined, "missing")).toEqual([
+      null,
+      "missing",
+    ]);
+  });
+
+  it("should convert results to promises", async () => {
+    await expect(neatResult.toPromise(ok)).resolves.toBe(21);
+    await expect(neatResult.toPromise(err)).rejects.toThrow("failed");
+  });
+});
+
+describe("schema validation", () => {
+  type User = { id: number; name: string };
+
+  // Minimal Standard Schema implementation, as provided by Zod, Valibot or ArkType
+  const userSchema: StandardSchemaV1<unknown, User> = {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: (value) => {
+        const user = value as Partial<User> | null;
+        const issues = [];
+        if (typeof user?.id !== "number") {
+          issues.push({ message: "Expected a number", path: ["id"] });
+        }
+        if (typeof user?.name !== "string") {
+          issues.push({
+            message: "Expected a string",
+            path: [{ key: "name" }],
+          });
+        }
+        return issues.length ? { issues } : { value: user as User };
+      },
+    },
+  };
+
+  const asyncSchema: StandardSchemaV1<unknown, number> = {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: async (value) =>
+        typeof value === "number"
+          ? { value }
+          : { issues: [{ message: "Expected a number" }] },
+    },
+  };
+
+  describe("neatParse", () => {
+    it("should return the validated value", async () => {
+      const [user, error] = await neatParse(
+        '{"id":1,"name":"Ada"}',
+        userSchema
+      );
+
+      expect(user).toEqual({ id: 1, name: "Ada" });
+      expect(error).toBeNull();
+    });
+
+    it("should return a ValidationError with per-path issues", async () => {
+      const [user, error] = await neatParse('{"name":2}', userSchema);
+
+      expect(user).toBeNull();
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).issues).toEqual([
+        { message: "Expected a number", path: ["id"] },
+        { message: "Expected a string", path: ["name"] },
+      ]);
+      expect(error?.message).toBe(
+        "Validation failed: id: Expected a number; name: Expected a string"
+      );
+    });
+
+    it("should return syntax errors of invalid JSON", async () => {
+      const [, error] = await neatParse("{oops", userSchema);
+
+      expect(error).toBeInstanceOf(SyntaxError);
+    });
+
+    it("should support async schemas", async () => {
+      expect(await neatParse("42", asyncSchema)).toEqual([42, null]);
+      const [, error] = await neatParse('"42"', asyncSchema);
+      expect(error?.message).toBe("Validation failed: Expected a number");
+    });
+  });
+
+  describe("validate option", () => {
+    it("should validate the value returned by neatCatch", async () => {
+      const [user, error] = await neatCatch(
+        (): unknown => ({ id: 1, name: "Ada" }),
+        { validate: userSchema }
+      );
+
+      expect(user?.name).toBe("Ada");
+      expect(error).toBeNull();
+    });
+
+    it("should return validation errors untransformed", async () => {
+      const [, validationError] = await neatCatch(() => ({ id: "1" }), {
+        validate: userSchema,
+        errorTransformer: errorTransformers.toString,
+      });
+      const [, thrownError] = await neatCatch(
+        async (): Promise<unknown> => {
+          throw new Error("failed");
+        },
+        { validate: userSchema, errorTransformer: errorTransformers.toString }
+      );
+
+      expect(validationError).toBeInstanceOf(ValidationError);
+      expect(thrownError).toBe("failed");
+    });
+
+    it("should reject errors outside the catch filter", async () => {
+      const result = neatCatch(
+        (): unknown => {
+          throw new TypeError("bug");
+        },
+        { catch: [RangeError], validate: userSchema }
+      );
+
+      await expect(result).rejects.toThrow(TypeError);
+    });
+
+    it("should validate the values returned by a wrapper", async () => {
+      const getUser = createNeatWrapper(
+        async (id: number): Promise<unknown> => ({ id, name: `user ${id}` }),
+        { validate: userSchema }
+      );
+      const getBrokenUser = createNeatWrapper((id: number) => ({ id }), {
+        validate: userSchema,
+      });
+
+      expect(await getUser(1)).toEqual([{ id: 1, name: "user 1" }, null]);
+      const [, error] = await getBrokenUser(1);
+      expect((error as ValidationError).issues[0].path).toEqual(["name"]);
+    });
+  });
+});
+
+describe("decorators", () => {
+  class UserService {
+    calls = 0;
+
+    constructor(private readonly users: Record<string, string>) {}
+
+    @NeatCatch()
+    findSync(id: string): NeatCatchResult<string> {
+      const user = this.users[id];
+      if (!user) throw new Error(`User ${id} not found`);
+      return [user, null];
+    }
+
+    @NeatCatch(errorTransformers.toString)
+    async find(id: string): Promise<NeatCatchResult<string, string>> {
+      const user = this.users[id];
+      if (!user) throw new Error(`User ${id} not found`);
+      return [user, null];
+    }
+
+    @NeatCatch(errorTransformers.toString)
+    query(id: string): PromiseLike<NeatCatchResult<string, string>> {
+      // A query builder style thenable that only implements then
+      return {
+        then: (onFulfilled, onRejected) =>
+          new Promise<NeatCatchResult<string, string>>((resolve) => {
+            const user = this.users[id];
+            if (!user) throw new Error(`User ${id} not found`);
+            resolve([user, null]);
+          }).then(onFulfilled, onRejected),
+      };
+    }
+
+    @NeatCatch(errorTransformers.toString)
+    async findOrFail(id: string): Promise<NeatCatchResult<string, string>> {
+      return id in this.users ? [this.users[id], null] : [null, "missing"];
+    }
+
+    @NeatRetry({ maxRetries: 2, delay: 1 })
+    async flaky(): Promise<NeatCatchResult<number, Error>> {
+      this.calls++;
+      if (this.calls < 3) throw new Error("Temporary failure");
+      return [this.calls, null];
+    }
+
+    @NeatRetry({ maxRetries: 1, delay: 1, errorTransformer: String })
+    async broken(): Promise<NeatCatchResult<number, string>> {
+      this.calls++;
+      return [null, "still broken"];
+    }
+  }
+
+  const service = new UserService({ "1": "Ada" });
+
+  it("should catch sync methods and keep this", () => {
+    const [user, error] = service.findSync("1");
+    expect(user).toBe("Ada");
+    expect(error).toBeNull();
+
+    const [, missing] = service.findSync("2");
+    expect(missing?.message).toBe("User 2 not found");
+  });
+
+  it("should catch async methods with an error transformer", async () => {
+    expect(await service.find("1")).toEqual(["Ada", null]);
+    expect(await service.find("2")).toEqual([null, "User 2 not found"]);
+    expect(await service.findOrFail("2")).toEqual([null, "missing"]);
+  });
+
+  it("should unwrap thenables returned by methods", async () => {
+    expect(await service.query("1")).toEqual(["Ada", null]);
+    expect(await service.query("2")).toEqual([null, "User 2 not found"]);
+  });
+
+  it("should keep the method name and length", () => {
+    expect(UserService.prototype.find.name).toBe("find");
+    expect(UserService.prototype.find.length).toBe(1);
+  });
+
+  it("should retry methods", async () => {
+    const flakyService = new UserService({});
+
+    expect(await flakyService.flaky()).toEqual([3, null]);
+    expect(flakyService.calls).toBe(3);
+  });
+
+  it("should retry returned errors", async () => {
+    const brokenService = new UserService({});
+
+    expect(await brokenService.broken()).toEqual([null, "still broken"]);
+    expect(brokenService.calls).toBe(2);
+  });
+});
+
+describe("configureNeatCatch", () => {
+  afterEach(() => {
+    configureNeatCatch({});
+  });
+
+  it("should apply the default error transformer", async () => {
+    configureNeatCatch({ defaultErrorTransformer: errorTransformers.toString });
+
+    const [, syncError] = neatCatch((): void => {
+      throw new Error("sync");
+    });
+    const [, wrapperError] = await createNeatWrapper(async () => {
+      throw new Error("wrapped");
+    })();
+    const { errors } = await neatCatchAll([
+      () => Promise.reject(new Error("all")),
+    ]);
+    const [, retryError] = await neatCatchRetry(
+      () => Promise.reject(new Error("retry")),
+      { maxRetries: 0 }
+    );
+
+    expect(syncError).toBe("sync");
+    expect(wrapperError).toBe("wrapped");
+    expect(errors).toEqual(["all"]);
+    expect(retryError).toBe("retry");
+  });
+
+  it("should let per-call transformers take precedence", () => {
+    configureNeatCatch({ defaultErrorTransformer: errorTransformers.toString });
+
+    const [, error] = neatCatch(
+      (): void => {
+        throw new Error("failed");
+      },
+      (e) => ({ wrapped: (e as Error).message })
+    );
+
+    expect(error).toEqual({ wrapped: "failed" });
+  });
+
+  it("should report each failure to onError once", async () => {
+    const onError = vi.fn();
+    configureNeatCatch({ onError });
+    const error = new Error("failed");
+
+    neatCatch((): void => {
+      throw error;
+    });
+    await neatCatchAll([() => Promise.resolve(1), () => Promise.reject(error)]);
+    await neatCatchRetry(() => Promise.reject(error), {
+      maxRetries: 2,
+      delay: 1,
+    });
+    neatCatch(() => "ok");
+
+    expect(onError).toHaveBeenCalledTimes(3);
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+
+  it("should report transformer errors to onTransformerError", () => {
+    const onTransformerError = vi.fn();
+    configureNeatCatch({ onTransformerError });
+    const error = new Error("original");
+    const transformerError = new Error("transformer broke");
+
+    const [, result] = neatCatch(
+      (): void => {
+        throw error;
+      },
+      () => {
+        throw transformerError;
+      }
+    );
+
+    expect(result).toBeInstanceOf(AggregateError);
+    expect(onTransformerError).toHaveBeenCalledWith(transformerError, error);
+  });
+
+  it("should ignore errors thrown by the hooks", () => {
+    configureNeatCatch({
+      onError: () => {
+        throw new Error("reporter down");
+      },
+    });
+
+    const [, error] = neatCatch((): void => {
+      throw new Error("failed");
+    });
+
+    expect(error?.message).toBe("failed");
+  });
+});
+
+describe("createNeatCatch", () => {
+  afterEach(() => {
+    configureNeatCatch({});
+  });
+
+  it("should use its own config instead of the global one", async () => {
+    const globalOnError = vi.fn();
+    const onError = vi.fn();
+    configureNeatCatch({ onError: globalOnError });
+    const scoped = createNeatCatch({
+      defaultErrorTransformer: errorTransformers.toString,
+      onError,
+    });
+
+    const [, error] = scoped.neatCatch((): void => {
+      throw new Error("failed");
+    });
+    const [, wrapperError] = scoped.createNeatWrapper((): void => {
+      throw new Error("wrapped");
+    })();
+    const { errors } = await scoped.neatCatchAll({
+      user: () => Promise.reject(new Error("all")),
+    });
+    const [, retryError] = await scoped.neatCatchRetry(
+      () => Promise.reject(new Error("retry")),
+      { maxRetries: 0 }
+    );
+
+    expect(error).toBe("failed");
+    expect(wrapperError).toBe("wrapped");
+    expect(errors).toEqual({ user: "all" });
+    expect(retryError).toBe("retry");
+    expect(onError).toHaveBeenCalledTimes(4);
+    expect(globalOnError).not.toHaveBeenCalled();
+  });
+
+  it("should not change the exported functions", () => {
+    createNeatCatch({ defaultErrorTransformer: errorTransformers.toString });
+
+    const [, error] = neatCatch((): void => {
+      throw new Error("failed");
+    });
+
+    expect(error).toBeInstanceOf(Error);
+  });
+});
+
+describe("neatCatchIterable", () => {
+  const collect = async <T>(iterable: AsyncIterable<T>) => {
+    const items: T[] = [];
+    for await (const item of iterable) items.push(item);
+    return items;
+  };
+
+  async function* pages(failAfter = Infinity) {
+    for (let page = 1; page <= 3; page++) {
+      if (page > failAfter) throw new Error("connection reset");
+      yield page;
+    }
+  }
+
+  it("should yield a tuple per item", async () => {
+    const results = await collect(
+      neatCatchIterable(pages(), async (page) => {
+        if (page === 2) throw new Error("bad record");
+        return page * 10;
+      })
+    );
+
+    expect(results).toHaveLength(3);
+    expect(results[0]).toEqual([10, null]);
+    expect(results[1][1]?.message).toBe("bad record");
+    expect(results[2]).toEqual([30, null]);
+  });
+
+  it("should accept sync iterables and pass the index", async () => {
+    const results = await collect(
+      neatCatchIterable(["a", "b"], (item, index) => `${index}:${item}`)
+    );
+
+    expect(results).toEqual([
+      ["0:a", null],
+      ["1:b", null],
+    ]);
+  });
+
+  it("should end with an IterableSourceError when the source fails", async () => {
+    const results = await collect(neatCatchIterable(pages(1)));
+
+    expect(results).toHaveLength(2);
+    expect(results[0]).toEqual([1, null]);
+    const [, error] = results[1];
+    expect(error).toBeInstanceOf(IterableSourceError);
+    expect((error as IterableSourceError).cause).toEqual(
+      new Error("connection reset")
+    );
+  });
+
+  it("should transform mapper errors only", async () => {
+    const results = await collect(
+      neatCatchIterable(
+        pages(1),
+        () => {
+          throw new Error("bad record");
+        },
+        errorTransformers.toString
+      )
+    );
+
+    expect(results[0]).toEqual([null, "bad record"]);
+    expect(results[1][1]).toBeInstanceOf(IterableSourceError);
+  });
+
+  it("should stop after maxErrors failed items", async () => {
+    const source = pages();
+    const results = await collect(
+      neatCatchIterable(
+        source,
+        () => {
+          throw new Error("bad record");
+        },
+        { maxErrors: 2 }
+      )
+    );
+
+    expect(results).toHaveLength(2);
+    expect(await source.next()).toEqual({ value: undefined, done: true });
+  });
+});
+
+describe("neatCallback", () => {
+  const divide = (
+    a: number,
+    b: number,
+    callback: (error: Error | null, value?: number) => void
+  ) => {
+    setTimeout(() =>
+      b === 0 ? callback(new Error("Division by zero")) : callback(null, a / b)
+    );
+  };
+
+  it("should return the callback value", async () => {
+    const [result, error] = await neatCallback(divide, 10, 2);
+
+    expect(result).toBe(5);
+    expect(error).toBeNull();
+  });
+
+  it("should return the callback error", async () => {
+    const [result, error] = await neatCallback(divide, 10, 0);
+
+    expect(result).toBeNull();
+    expect(error?.message).toBe("Division by zero");
+  });
+
+  it("should catch synchronous throws", async () => {
+    const [, error] = await neatCallback(
+      (_callback: (error: Error | null) => void) => {
+        throw new Error("sync failure");
+      }
+    );
+
+    expect(error?.message).toBe("sync failure");
+  });
+});
+
+describe("neatOnce", () => {
+  it("should resolve with the event arguments", async () => {
+    const emitter = new EventEmitter();
+    const resultPromise = neatOnce<[string, number]>(emitter, "ready");
+    emitter.emit("ready", "db", 3);
+
+    expect(await resultPromise).toEqual([["db", 3], null]);
+    expect(emitter.listenerCount("ready")).toBe(0);
+    expect(emitter.listenerCount("error")).toBe(0);
+  });
+
+  it("should return the error event", async () => {
+    const emitter = new EventEmitter();
+    const resultPromise = neatOnce(emitter, "ready", {
+      errorTransformer: errorTransformers.toString,
+    });
+    emitter.emit("error", new Error("connection refused"));
+
+    expect(await resultPromise).toEqual([null, "connection refused"]);
+    expect(emitter.listenerCount("ready")).toBe(0);
+  });
+
+  it("should use a custom error event", async () => {
+    const emitter = new EventEmitter();
+    const resultPromise = neatOnce(emitter, "ready", { errorEvent: "fail" });
+    emitter.emit("fail", new Error("failed"));
+
+    const [, error] = await resultPromise;
+    expect(error?.message).toBe("failed");
+    expect(emitter.listenerCount("fail")).toBe(0);
+  });
+
+  it("should return a TimeoutError when the event is not emitted in time", async () => {
+    const emitter = new EventEmitter();
+    const [, error] = await neatOnce(emitter, "ready", { timeout: 10 });
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error?.message).toBe('Timed out after 10ms waiting for "ready"');
+    expect(emitter.listenerCount("ready")).toBe(0);
+  });
+
+  it("should return an AbortError when the signal aborts", async () => {
+    const controller = new AbortController();
+    const resultPromise = neatOnce(new EventEmitter(), "ready", {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    const [, error] = await resultPromise;
+    expect(error).toBeInstanceOf(AbortError);
+  });
+});
+
+describe("neatCatchFallback", () => {
+  it("should return the first step to succeed", async () => {
+    const stale = vi.fn(() => "stale");
+    const [result, error] = await neatCatchFallback([
+      async () => {
+        throw new Error("primary down");
+      },
+      async () => "replica",
+      stale,
+    ]);
+
+    expect(result).toBe("replica");
+    expect(error).toBeNull();
+    expect(stale).not.toHaveBeenCalled();
+  });
+
+  it("should aggregate the transformed errors of every step", async () => {
+    const [result, error] = await neatCatchFallback(
+      [
+        async () => {
+          throw new Error("primary");
+        },
+        () => {
+          throw new Error("cache");
+        },
+      ],
+      {
+        errorTransformer: (e, step) => `${step}: ${(e as Error).message}`,
+      }
+    );
+
+    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error?.message).toBe("All fallbacks failed");
+    expect(error?.errors).toEqual(["0: primary", "1: cache"]);
+  });
+
+  it("should stop when a step should not fall through", async () => {
+    const replica = vi.fn(async () => "replica");
+    const [, error] = await neatCatchFallback([
+      {
+        fn: async () => {
+          throw new TypeError("bad request");
+        },
+        shouldFallback: (e) => !(e instanceof TypeError),
+      },
+      replica,
+    ]);
+
+    expect(error?.errors).toHaveLength(1);
+    expect(error?.message).toBe("Step 0 failed without falling back");
+    expect(replica).not.toHaveBeenCalled();
+  });
+
+  it("should pass the step index to the shouldFallback option", async () => {
+    const shouldFallback = vi.fn((_error: unknown, step: number) => step < 1);
+    const [, error] = await neatCatchFallback(
+      [
+        () => Promise.reject(new Error("a")),
+        () => Promise.reject(new Error("b")),
+        async () => "c",
+      ],
+      { shouldFallback }
+    );
+
+    expect(error?.errors).toHaveLength(2);
+    expect(shouldFallback.mock.calls.map(([, step]) => step)).toEqual([0, 1]);
+  });
+
+  it("should retry steps with retry options", async () => {
+    const primary = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("blip"))
+      .mockResolvedValue("primary");
+    const replica = vi.fn(async () => "replica");
+
+    const [result] = await neatCatchFallback([
+      { fn: primary, retry: { maxRetries: 1, delay: 1 } },
+      replica,
+    ]);
+
+    expect(result).toBe("primary");
+    expect(primary).toHaveBeenCalledTimes(2);
+    expect(replica).not.toHaveBeenCalled();
+  });
+
+  it("should stop falling back once the signal aborts", async () => {
+    const controller = new AbortController();
+    const replica = vi.fn(async () => "replica");
+
+    const [, error] = await neatCatchFallback(
+      [
+        async () => {
+          controller.abort();
+          throw new Error("primary");
+        },
+        replica,
+      ],
+      { signal: controller.signal }
+    );
+
+    expect(error?.errors).toHaveLength(1);
+    expect(replica).not.toHaveBeenCalled();
+  });
+});
+
+describe("createCircuitBreaker", () => {
+  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+  it("should open after consecutive failures and short-circuit calls", async () => {
+    const fn = vi.fn().mockRejectedValue(new Error("down"));
+    const onStateChange = vi.fn();
+    const breaker = createCircuitBreaker(fn, {
+      failureThreshold: 2,
+      onStateChange,
+    });
+
+    expect((await breaker())[1]?.message).toBe("down");
+    expect(breaker.state).toBe("closed");
+    await breaker();
+    expect(breaker.state).toBe("open");
+
+    const [result, error] = await breaker();
+
+    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect((error as CircuitOpenError).retryAfter).toBeGreaterThan(0);
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(onStateChange).toHaveBeenCalledWith({ from: "closed", to: "open" });
+    expect(breaker.stats).toEqual({
+      state: "open",
+      consecutiveFailures: 2,
+      failures: 2,
+      successes: 0,
+      rejected: 1,
+    });
+  });
+
+  it("should reset the failure count on success", async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("1"))
+      .mockResolvedValueOnce("ok")
+      .mockRejectedValueOnce(new Error("2"));
+    const breaker = createCircuitBreaker(fn, { failureThreshold: 2 });
+
+    await breaker();
+    expect(await breaker()).toEqual(["ok", null]);
+    await breaker();
+
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should close after successful half-open trial calls", async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("down"))
+      .mockResolvedValue("ok");
+    const onStateChange = vi.fn();
+    const breaker = createCircuitBreaker(fn, {
+      failureThreshold: 1,
+      resetTimeout: 20,
+      onStateChange,
+    });
+
+    await breaker();
+    await sleep(30);
+    expect(breaker.state).toBe("half-open");
+
+    const trial = breaker();
+    const [, rejected] = await breaker();
+
+    expect(rejected).toBeInstanceOf(CircuitOpenError);
+    expect(await trial).toEqual(["ok", null]);
+    expect(breaker.state).toBe("closed");
+    expect(onStateChange.mock.calls.map(([event]) => event.to)).toEqual([
+      "open",
+      "half-open",
+      "closed",
+    ]);
+  });
+
+  it("should reopen when a half-open trial fails", async () => {
+    const fn = vi.fn().mockRejectedValue(new Error("down"));
+    const breaker = createCircuitBreaker(fn, {
+      failureThreshold: 1,
+      resetTimeout: 20,
+    });
+
+    await breaker();
+    await sleep(30);
+    await breaker();
+
+    expect(breaker.state).toBe("open");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should ignore errors rejected by isFailure", async () => {
+    const fn = vi.fn().mockRejectedValue(new TypeError("bad input"));
+    const breaker = createCircuitBreaker(fn, {
+      failureThreshold: 1,
+      isFailure: (error) => !(error instanceof TypeError),
+      errorTransformer: errorTransformers.toString,
+    });
+
+    expect(await breaker()).toEqual([null, "bad input"]);
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should close when reset", async () => {
+    const breaker = createCircuitBreaker(
+      vi.fn().mockRejectedValue(new Error("down")),
+      { failureThreshold: 1 }
+    );
+
+    await breaker();
+    breaker.reset();
+
+    expect(breaker.state).toBe("closed");
+    expect(breaker.stats.consecutiveFailures).toBe(0);
+  });
+});
+
+describe("createRateLimitedWrapper", () => {
+  it("should reject calls beyond the limit", async () => {
+    const fn = vi.fn((n: number) => n * 2);
+    const limited = createRateLimitedWrapper(fn, { limit: 2, interval: 1000 });
+
+    expect(await limited(1)).toEqual([2, null]);
+    expect(await limited(2)).toEqual([4, null]);
+    const [result, error] = await limited(3);
+
+    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect((error as RateLimitedError).retryAfter).toBeGreaterThan(0);
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(limited.available).toBe(0);
+  });
+
+  it("should wait for a token when wait is enabled", async () => {
+    const limited = createRateLimitedWrapper(async () => Date.now(), {
+      limit: 1,
+      interval: 30,
+      wait: true,
+    });
+
+    const [first] = await limited();
+    const [second] = await limited();
+
+    expect(second! - first!).toBeGreaterThanOrEqual(25);
+  });
+
+  it("should reject waits longer than queueTimeout", async () => {
+    const limited = createRateLimitedWrapper(() => "ok", {
+      limit: 1,
+      interval: 1000,
+      wait: true,
+      queueTimeout: 10,
+    });
+
+    await limited();
+    const [, error] = await limited();
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+  });
+
+  it("should transform errors of the wrapped function", async () => {
+    const limited = createRateLimitedWrapper(
+      async () => {
+        throw new Error("failed");
+      },
+      { limit: 1, interval: 1000, errorTransformer: errorTransformers.toString }
+    );
+
+    expect(await limited()).toEqual([null, "failed"]);
+  });
+});
+
+describe("createBulkhead", () => {
+  const deferred = () => {
+    let resolve!: (value: string) => void;
+    const promise = new Promise<string>((r) => (resolve = r));
+    return { promise, resolve };
+  };
+
+  it("should reject calls beyond the concurrency limit", async () => {
+    const gate = deferred();
+    const bulkhead = createBulkhead(() => gate.promise, { maxConcurrent: 1 });
+
+    const first = bulkhead();
+    const [result, error] = await bulkhead();
+
+    expect(result).toBeNull();
+    expect(error).toBeInstanceOf(BulkheadFullError);
+    expect(bulkhead.active).toBe(1);
+
+    gate.resolve("done");
+    expect(await first).toEqual(["done", null]);
+    expect(bulkhead.active).toBe(0);
+  });
+
+  it("should queue calls up to maxQueue", async () => {
+    const gate = deferred();
+    const fn = vi.fn(() => gate.promise);
+    const bulkhead = createBulkhead(fn, { maxConcurrent: 1, maxQueue: 1 });
+
+    const first = bulkhead();
+    const second = bulkhead();
+    const [, error] = await bulkhead();
+
+    expect(error).toBeInstanceOf(BulkheadFullError);
+    expect(bulkhead.queued).toBe(1);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    gate.resolve("done");
+
+    expect(await first).toEqual(["done", null]);
+    expect(await second).toEqual(["done", null]);
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(bulkhead.active).toBe(0);
+  });
+
+  it("should give up on queued calls after queueTimeout", async () => {
+    const bulkhead = createBulkhead(() => new Promise(() => {}), {
+      maxConcurrent: 1,
+      maxQueue: 1,
+      queueTimeout: 10,
+    });
+
+    bulkhead();
+    const [, error] = await bulkhead();
+
+    expect(error).toBeInstanceOf(BulkheadFullError);
+    expect((error as BulkheadFullError).message).toContain("10ms");
+    expect(bulkhead.queued).toBe(0);
+  });
+
+  it("should free the slot when the function fails", async () => {
+    const bulkhead = createBulkhead(
+      async () => {
+        throw new Error("failed");
+      },
+      { maxConcurrent: 1 }
+    );
+
+    expect((await bulkhead())[1]?.message).toBe("failed");
+    expect(bulkhead.active).toBe(0);
+  });
+});
+
+describe("createCachedNeatWrapper", () => {
+  it("should share one call between concurrent calls with the same key", async () => {
+    const fetchUser = vi.fn(async (id: number) => ({ id }));
+    const getUser = createCachedNeatWrapper(fetchUser);
+
+    const results = await Promise.all([getUser(1), getUser(1), getUser(2)]);
+
+    expect(results).toEqual([
+      [{ id: 1 }, null],
+      [{ id: 1 }, null],
+      [{ id: 2 }, null],
+    ]);
+    expect(fetchUser).toHaveBeenCalledTimes(2);
+
+    await getUser(1);
+    expect(fetchUser).toHaveBeenCalledTimes(3);
+  });
+
+  it("should use the key function", async () => {
+    const fn = vi.fn(async (user: { id: number; name: string }) => user.name);
+    const wrapped = createCachedNeatWrapper(fn, {
+      key: (user) => `${user.id}`,
+    });
+
+    await Promise.all([
+      wrapped({ id: 1, name: "a" }),
+      wrapped({ id: 1, name: "b" }),
+    ]);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should cache successes for the ttl", async () => {
+    const fn = vi.fn(async (id: number) => id);
+    const wrapped = createCachedNeatWrapper(fn, { ttl: 20 });
+
+    await wrapped(1);
+    expect(await wrapped(1)).toEqual([1, null]);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    await new Promise((r) => setTimeout(r, 30));
+    await wrapped(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should evict the least recently used entry beyond maxSize", async () => {
+    const fn = vi.fn(async (id: number) => id);
+    const wrapped = createCachedNeatWrapper(fn, { ttl: 1000, maxSize: 2 });
+
+    await wrapped(1);
+    await wrapped(2);
+    await wrapped(1);
+    await wrapped(3);
+    fn.mockClear();
+
+    await wrapped(1);
+    await wrapped(2);
+
+    expect(fn.mock.calls).toEqual([[2]]);
+  });
+
+  it("should only cache errors when asked", async () => {
+    const fn = vi.fn(async () => {
+      throw new Error("failed");
+    });
+    const uncached = createCachedNeatWrapper(fn, { ttl: 1000 });
+    await uncached();
+    await uncached();
+    expect(fn).toHaveBeenCalledTimes(2);
+
+    fn.mockClear();
+    const cached = createCachedNeatWrapper(fn, {
+      ttl: 1000,
+      cacheErrors: true,
+      errorTransformer: errorTransformers.toString,
+    });
+    await cached();
+    expect(await cached()).toEqual([null, "failed"]);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should invalidate and clear entries", async () => {
+    const fn = vi.fn(async (id: number) => id);
+    const wrapped = createCachedNeatWrapper(fn, {
+      ttl: 1000,
+      key: (id) => `user:${id}`,
+    });
+
+    await wrapped(1);
+    await wrapped(2);
+    wrapped.invalidate("user:1");
+    await wrapped(1);
+    await wrapped(2);
+    expect(fn).toHaveBeenCalledTimes(3);
+
+    wrapped.clear();
+    await wrapped(2);
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe("neatify", () => {
+  class Client {
+    connected = false;
+    tags = ["a", "b"];
+    user = {
+      rows: [{ id: 1 }],
+      async findMany() {
+        return this.rows;
+      },
+      findFirst(id: number) {
+        if (!this.rows.some((row) => row.id === id)) {
+          throw new Error(`User ${id} not found`);
+        }
+        return { id };
+      },
+    };
+
+    get url() {
+      return this.connected ? "db://connected" : "db://idle";
+    }
+
+    async connect() {
+      this.connected = true;
+      return this.ping();
+    }
+
+    ping() {
+      return "pong";
+    }
+  }
+
+  it("should wrap methods of the client and nested namespaces", async () => {
+    const db = neatify(new Client());
+
+    expect(db.ping()).toEqual(["pong", null]);
+    expect(await db.user.findMany()).toEqual([[{ id: 1 }], null]);
+    expect(db.user.findFirst(1)).toEqual([{ id: 1 }, null]);
+
+    const [user, error] = db.user.findFirst(2);
+    expect(user).toBeNull();
+    expect(error?.message).toBe("User 2 not found");
+  });
+
+  it("should call methods with the client as this", async () => {
+    const client = new Client();
+    const db = neatify(client);
+
+    expect(await db.connect()).toEqual(["pong", null]);
+    expect(client.connected).toBe(true);
+    expect(db.url).toBe("db://connected");
+  });
+
+  it("should leave non-function properties alone", () => {
+    const client = new Client();
+    const db = neatify(client);
+
+    expect(db.tags).toBe(client.tags);
+    expect(db.user.rows).toBe(client.user.rows);
+    expect(db.tags.map((tag) => tag.toUpperCase())).toEqual(["A", "B"]);
+  });
+
+  it("should return the read-only properties of frozen clients unchanged", () => {
+    const find = () => 1;
+    const frozen = neatify(
+      Object.freeze({ find, user: Object.freeze({ find }) })
+    );
+    const nested = neatify({ user: Object.freeze({ find }) });
+
+    expect(frozen.find).toBe(find);
+    expect(frozen.user.find).toBe(find);
+    expect(nested.user.find).toBe(find);
+  });
+
+  it("should leave Object methods and the constructor alone", () => {
+    const client = new Client();
+    const db = neatify(client);
+
+    expect(String(db)).toBe("[object Object]");
+    expect(`${db.user}`).toBe("[object Object]");
+    expect(db.hasOwnProperty("tags")).toBe(true);
+    expect(db.constructor).toBe(Client);
+    expect(db).toBeInstanceOf(Client);
+  });
+
+  it("should cache wrapped methods and namespaces", () => {
+    const client = new Client();
+    const db = neatify(client);
+
+    expect(db.ping).toBe(db.ping);
+    expect(db.user).toBe(db.user);
+
+    client.ping = () => "replaced";
+    expect(db.ping()).toEqual(["replaced", null]);
+  });
+
+  it("should apply the error transformer", () => {
+    const db = neatify(new Client(), { errorTransformer: String });
+
+    expect(db.user.findFirst(2)).toEqual([null, "Error: User 2 not found"]);
+  });
+
+  it("should only wrap included methods", async () => {
+    const db = neatify(new Client(), { include: ["user", "ping"] });
+
+    expect(db.ping()).toEqual(["pong", null]);
+    expect(await db.user.findMany()).toEqual([[{ id: 1 }], null]);
+    expect(await db.connect()).toBe("pong");
+  });
+
+  it("should not wrap excluded methods or namespaces", async () => {
+    const db = neatify(new Client(), { exclude: ["connect", "user.findMany"] });
+
+    expect(await db.connect()).toBe("pong");
+    expect(await db.user.findMany()).toEqual([{ id: 1 }]);
+    expect(db.user.findFirst(1)).toEqual([{ id: 1 }, null]);
+
+    const raw = neatify(new Client(), { exclude: ["user"] });
+    expect(() => raw.user.findFirst(2)).toThrow("User 2 not found");
+  });
+});
+
+describe("serializeError", () => {
+  it("should keep custom properties and the cause chain", () => {
+    const cause = new TypeError("socket closed");
+    const error = Object.assign(new Error("Request failed", { cause }), {
+      status: 503,
+      retryable: true,
+    });
+
+    const serialized = serializeError(error);
+
+    expect(serialized).toMatchObject({
+      name: "Error",
+      message: "Request failed",
+      status: 503,
+      retryable: true,
+      cause: { name: "TypeError", message: "socket closed" },
+    });
+    expect(typeof serialized.stack).toBe("string");
+    expect(JSON.parse(JSON.stringify(serialized))).toEqual(serialized);
+  });
+
+  it("should serialize aggregated errors", () => {
+    const serialized = serializeError(
+      new AggregateError([new Error("a"), "b"], "Both failed")
+    );
+
+    expect(serialized.errors).toEqual([
+      expect.objectContaining({ name: "Error", message: "a" }),
+      "b",
+    ]);
+  });
+
+  it("should replace circular references", () => {
+    const error: any = new Error("loop");
+    error.self = error;
+    error.data = { parent: error };
+
+    const serialized = serializeError(error);
+
+    expect(serialized.self).toBe("[Circular]");
+    expect(serialized.data).toEqual({ parent: "[Circular]" });
+  });
+
+  it("should apply depth and length limits", () => {
+    const error = Object.assign(new Error("x".repeat(20)), {
+      nested: { a: { b: { c: 1 } } },
+    });
+
+    const serialized = serializeError(error, { maxDepth: 3, maxLength: 5 });
+
+    expect(serialized.message).toBe("xxxxx…");
+    expect(serialized.nested).toEqual({ a: { b: "[MaxDepth]" } });
+  });
+
+  it("should convert values that are not JSON-safe", () => {
+    const serialized = serializeError(
+      Object.assign(new Error("odd"), {
+        big: 10n,
+        date: new Date(0),
+        fn: () => {},
+        missing: undefined,
+        list: [undefined, NaN],
+      })
+    );
+
+    expect(serialized).toMatchObject({
+      big: "10",
+      date: "1970-01-01T00:00:00.000Z",
+      list: [null, "NaN"],
+    });
+    expect("fn" in serialized).toBe(false);
+    expect("missing" in serialized).toBe(false);
+  });
+
+  it("should serialize non-error values", () => {
+    expect(serializeError("boom")).toEqual({ name: "Error", message: "boom" });
+  });
+
+  it("should keep the properties of plain objects", () => {
+    expect(serializeError({ code: "E1", message: "bad" })).toEqual({
+      name: "Error",
+      message: "bad",
+      code: "E1",
+    });
+    expect(serializeError({ name: "HttpError", status: 404 })).toEqual({
+      name: "HttpError",
+      message: "Unknown error",
+      status: 404,
+    });
+  });
+});
+
+describe("deserializeError", () => {
+  it("should revive built-in and library error classes", () => {
+    const original = new TimeoutError(500);
+    const revived = deserializeError(
+      JSON.parse(JSON.stringify(serializeError(original)))
+    );
+
+    expect(revived).toBeInstanceOf(TimeoutError);
+    expect(revived.message).toBe(original.message);
+    expect(revived.name).toBe("TimeoutError");
+    expect(revived.stack).toBe(original.stack);
+    expect((revived as TimeoutError).timeout).toBe(500);
+    expect(deserializeError(serializeError(new TypeError("t")))).toBeInstanceOf(
+      TypeError
+    );
+  });
+
+  it("should revive causes and aggregated errors", () => {
+    const revived = deserializeError(
+      serializeError(
+        new AggregateError([new RangeError("r")], "All failed", {
+          cause: new Error("root"),
+        })
+      )
+    ) as AggregateError;
+
+    expect(revived).toBeInstanceOf(AggregateError);
+    expect(revived.errors[0]).toBeInstanceOf(RangeError);
+    expect(revived.cause).toBeInstanceOf(Error);
+    expect((revived.cause as Error).message).toBe("root");
+  });
+
+  it("should revive registered classes", () => {
+    const PaymentDeclined = defineError("PaymentDeclined", { code: String });
+    class QuotaError extends Error {
+      name = "QuotaError";
+    }
+    registerErrorClass(PaymentDeclined);
+    registerErrorClass(QuotaError);
+
+    const declined = deserializeError(
+      serializeError(new PaymentDeclined({ code: "insufficient_funds" }))
+    );
+    const quota = deserializeError(serializeError(new QuotaError("over")));
+
+    expect(declined).toBeInstanceOf(PaymentDeclined);
+    expect((declined as InstanceType<typeof PaymentDeclined>).code).toBe(
+      "insufficient_funds"
+    );
+    expect(quota).toBeInstanceOf(QuotaError);
+  });
+
+  it("should fall back to Error for unknown names and values", () => {
+    const revived = deserializeError({ name: "Unknown", message: "m", id: 1 });
+
+    expect(revived).toBeInstanceOf(Error);
+    expect(revived.name).toBe("Unknown");
+    expect((revived as any).id).toBe(1);
+    expect(deserializeError("plain").message).toBe("plain");
+  });
+
+  it("should not let a __proto__ key replace the prototype", () => {
+    const revived = deserializeError(
+      JSON.parse(
+        '{"name":"TypeError","message":"x","code":1,"__proto__":{"polluted":1}}'
+      )
+    );
+
+    expect(revived).toBeInstanceOf(TypeError);
+    expect((revived as any).polluted).toBeUndefined();
+    expect((revived as any).code).toBe(1);
+    expect(Object.keys(revived)).toEqual(["code"]);
+  });
+
+  it("should stop reviving deeply nested causes", () => {
+    let serialized: SerializedError = { name: "Error", message: "root" };
+    for (let i = 0; i < 150; i++) {
+      serialized = { name: "Error", message: `level ${i}`, cause: serialized };
+    }
+
+    const chain = getCauseChain(deserializeError(serialized), 200);
+
+    expect(chain.findIndex((error) => !(error instanceof Error))).toBe(101);
+  });
+});
+
+describe("cause chain utilities", () => {
+  const root = new TypeError("socket closed");
+  const middle = new Error("Request failed", { cause: root });
+  const outer = new Error("Could not load user", { cause: middle });
+
+  it("should list the cause chain", () => {
+    expect(getCauseChain(outer)).toEqual([outer, middle, root]);
+    expect(getCauseChain("plain")).toEqual(["plain"]);
+    expect(rootCause(outer)).toBe(root);
+    expect(rootCause(root)).toBe(root);
+  });
+
+  it("should stop at cycles and the depth limit", () => {
+    const a = new Error("a");
+    const b = new Error("b", { cause: a });
+    a.cause = b;
+
+    expect(getCauseChain(a)).toEqual([a, b]);
+    expect(getCauseChain(outer, 1)).toEqual([outer, middle]);
+  });
+
+  it("should flatten aggregated errors and their causes", () => {
+    const first = new Error("first", { cause: root });
+    const second = new RangeError("second");
+    const aggregate = new AggregateError([first, second], "Both failed", {
+      cause: root,
+    });
+
+    expect(flattenErrors(aggregate)).toEqual([aggregate, first, root, second]);
+  });
+
+  it("should find causes by class or predicate", () => {
+    const aggregate = new AggregateError([new Error("a"), outer], "failed");
+
+    expect(findCause(aggregate, TypeError)).toBe(root);
+    expect(findCause(outer, Error)).toBe(outer);
+    expect(
+      findCause(
+        aggregate,
+        (e): e is Error => e instanceof Error && e.message.includes("Request")
+      )
+    ).toBe(middle);
+    expect(findCause(outer, RangeError)).toBeUndefined();
+  });
+
+  it("should find causes by classes that do not extend Error", () => {
+    class HttpFailure {
+      constructor(readonly status: number) {}
+    }
+    function LegacyFailure(this: { code: string }) {
+      this.code = "legacy";
+    }
+    LegacyFailure.prototype.describe = function () {
+      return "legacy failure";
+    };
+    const failure = new HttpFailure(503);
+    const legacy = new (LegacyFailure as any)();
+    const error = new Error("Request failed", {
+      cause: new Error("Retry failed", { cause: failure }),
+    });
+
+    expect(findCause(error, HttpFailure)).toBe(failure);
+    expect(
+      findCause(new Error("x", { cause: legacy }), LegacyFailure as any)
+    ).toBe(legacy);
+    expect(findCause(outer, HttpFailure)).toBeUndefined();
+  });
+
+  it("should render the chain for logs", () => {
+    const aggregate = new AggregateError([outer, "b"], "All failed");
+
+    expect(errorTransformers.withCauseChain(aggregate)).toBe(
+      [
+        "AggregateError: All failed",
+        "  [0] Error: Could not load user",
+        "    caused by: Error: Request failed",
+        "      caused by: TypeError: socket closed",
+        "  [1] b",
+      ].join("\n")
+    );
+  });
+
+  it("should mark circular causes when rendering", () => {
+    const a = new Error("a");
+    a.cause = a;
+
+    expect(errorTransformers.withCauseChain(a)).toBe(
+      "Error: a\n  caused by: Error: a [Circular]"
+    );
+  });
+});
+
+describe("defineError", () => {
+  const NotFound = defineError(
+    "NotFound",
+    { id: String },
+    ({ id }) => `${id} not found`
+  );
+  const Conflict = defineError("Conflict", { version: Number });
+  const Unknown = defineError("Unknown");
+
+  type AppError =
+    | InstanceType<typeof NotFound>
+    | InstanceType<typeof Conflict>
+    | InstanceType<typeof Unknown>;
+
+  it("should create tagged errors with typed payloads", () => {
+    const cause = new Error("db");
+    const error = new NotFound({ id: "42" }, { cause });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toBeInstanceOf(NotFound);
+    expect(error).not.toBeInstanceOf(Conflict);
+    expect(error._tag).toBe("NotFound");
+    expect(error.name).toBe("NotFound");
+    expect(error.message).toBe("42 not found");
+    expect(error.id).toBe("42");
+    expect(error.cause).toBe(cause);
+    expect(NotFound.tag).toBe("NotFound");
+  });
+
+  it("should default the message to the tag", () => {
+    expect(new Conflict({ version: 3 }).message).toBe("Conflict");
+    expect(new Unknown().message).toBe("Unknown");
+    expect(new Unknown({}, { message: "custom" }).message).toBe("custom");
+  });
+
+  it("should match every tag of the union", () => {
+    const toMessage = (error: AppError) =>
+      matchError(error, {
+        NotFound: (e) => `missing ${e.id}`,
+        Conflict: (e) => `version ${e.version}`,
+        Unknown: () => "unknown",
+      });
+
+    expect(toMessage(new NotFound({ id: "1" }))).toBe("missing 1");
+    expect(toMessage(new Conflict({ version: 2 }))).toBe("version 2");
+    expect(toMessage(new Unknown())).toBe("unknown");
+  });
+
+  it("should serialize tag and payload with toObject", () => {
+    const [, error] = neatCatch((): void => {
+      throw new Conflict({ version: 7 });
+    }, errorTransformers.toObject);
+
+    expect(error).toMatchObject({
+      _tag: "Conflict",
+      name: "Conflict",
+      message: "Conflict",
+      version: 7,
+    });
+    expect(JSON.parse(JSON.stringify(new NotFound({ id: "9" })))).toEqual({
+      _tag: "NotFound",
+      id: "9",
     });
   });
 });
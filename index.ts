@@ -1,42 +1,100 @@
 /**
- * A utility function that executes a sync or async function and returns a tuple
- * where the first element is the data (or null if error) and the second element
- * is the error (or null if successful)
- *
- * @param fn - The sync or async function to execute
- * @param errorTransformer - Optional function to transform caught errors
- * @returns A tuple of [data | null, error | null] (wrapped in Promise for async functions)
+ * Error classes, or a predicate, selecting which errors are caught.
+ * Anything else is rethrown.
+ */
+export type NeatCatchFilter<C> =
+  | readonly (abstract new (...args: any[]) => C)[]
+  | ((error: unknown) => error is C)
+  | ((error: unknown) => boolean);
+
+export type NeatCatchOptions<C = unknown, E = C> = {
+  /** Only errors matching these classes (or this predicate) are caught; anything else is rethrown */
+  catch?: NeatCatchFilter<C>;
+  errorTransformer?: (error: C) => E;
+};
+
+/**
+ * The Standard Schema interface implemented by validators such as Zod, Valibot and ArkType
+ * (https://standardschema.dev)
+ */
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+};
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly StandardSchemaIssue[] };
+
+export type StandardSchemaIssue = {
+  readonly message: string;
+  readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[];
+};
+
+/**
+ * Options of `neatCatch` and `createNeatWrapper` with a schema validating the returned value
  */
-export function neatCatch<TFn extends () => any, E = Error>(
+export type NeatCatchValidateOptions<
+  S extends StandardSchemaV1,
+  C = unknown,
+  E = C,
+> = NeatCatchOptions<C, E> & {
+  /** Validates the returned value; a failed validation results in a ValidationError */
+  validate: S;
+};
+
+// Overload with an optional error transformer
+export function neatCatch<TFn extends NeatCatchInput, E = Error>(
   fn: TFn,
   errorTransformer?: (error: unknown) => E
-): ReturnType<TFn> extends Promise<any>
-  ? Promise<[Awaited<ReturnType<TFn>>, null] | [null, E]>
-  : [ReturnType<TFn>, null] | [null, E] {
-  const handleError = (error: unknown): [null, E] => [
-    null,
-    transformError(error, errorTransformer),
-  ];
+): NeatCatchReturn<TFn, E>;
 
-  try {
-    const result = fn();
+// Overload with a schema validating the returned value; always returns a Promise
+export function neatCatch<
+  TFn extends NeatCatchInput,
+  S extends StandardSchemaV1,
+  C = unknown,
+  E = C,
+>(
+  fn: TFn,
+  options: NeatCatchValidateOptions<S, C, E>
+): Promise<[SchemaOutput<S>, null] | [null, E | ValidationError]>;
 
-    if (
-      result instanceof Promise ||
-      (result != null &&
-        (typeof result === "object" || typeof result === "function") &&
-        typeof result.then === "function" &&
-        typeof result.catch === "function")
-    ) {
-      return result
-        .then((data: Awaited<ReturnType<TFn>>) => [data, null])
-        .catch(handleError) as any;
-    }
+// Overload with options, narrowing the error to the caught classes
+export function neatCatch<TFn extends NeatCatchInput, C = unknown, E = C>(
+  fn: TFn,
+  options: NeatCatchOptions<C, E>
+): NeatCatchReturn<TFn, E>;
 
-    return [result, null] as any;
-  } catch (error) {
-    return handleError(error) as any;
-  }
+/**
+ * A utility function that executes a sync or async function and returns a tuple
+ * where the first element is the data (or null if error) and the second element
+ * is the error (or null if successful)
+ *
+ * A Promise or thenable can be passed instead of a function and is awaited.
+ * Any object with a `then` method, returned or passed, is treated as a thenable.
+ *
+ * Falsy thrown values (undefined, null, 0, "", false) are replaced by a
+ * NonErrorThrown error so that a failure can never look like a success.
+ *
+ * @param fn - The sync or async function to execute, or a Promise or thenable
+ * @param options - Optional function to transform caught errors, or NeatCatchOptions
+ * @returns A tuple of [data | null, error | null] (wrapped in Promise for async functions and thenables)
+ */
+export function neatCatch<E>(
+  fn: NeatCatchInput,
+  options?:
+    | ((error: unknown) => E)
+    | NeatCatchOptions<any, E>
+    | NeatCatchValidateOptions<StandardSchemaV1, any, E>
+): any {
+  return catchWith(globalConfig, fn, options);
 }
 
 // Overload for synchronous functions with type override
@@ -53,248 +111,1784 @@ export function createNeatWrapper<TArgs extends any[], TReturn, E = Error>(
   ...args: TArgs
 ) => Promise<[TOverride, null] | [null, E]>;
 
+// Overload with a schema validating the returned value; the wrapper always returns a Promise
+export function createNeatWrapper<
+  TArgs extends any[],
+  TReturn,
+  S extends StandardSchemaV1,
+  C = unknown,
+  E = C,
+>(
+  fn: (...args: TArgs) => TReturn,
+  options: NeatCatchValidateOptions<S, C, E>
+): (
+  ...args: TArgs
+) => Promise<[SchemaOutput<S>, null] | [null, E | ValidationError]>;
+
+// Overload for synchronous functions with options
+export function createNeatWrapper<
+  TArgs extends any[],
+  TReturn,
+  C = unknown,
+  E = C,
+>(
+  fn: (...args: TArgs) => TReturn,
+  options: NeatCatchOptions<C, E>
+): <TOverride = TReturn>(...args: TArgs) => [TOverride, null] | [null, E];
+
+// Overload for asynchronous functions with options
+export function createNeatWrapper<
+  TArgs extends any[],
+  TReturn,
+  C = unknown,
+  E = C,
+>(
+  fn: (...args: TArgs) => Promise<TReturn>,
+  options: NeatCatchOptions<C, E>
+): <TOverride = TReturn>(
+  ...args: TArgs
+) => Promise<[TOverride, null] | [null, E]>;
+
 /**
  * Creates a wrapped version of a function that always returns a neat tuple
  *
  * @param fn - The function to wrap (can be sync or async)
- * @param errorTransformer - Optional function to transform caught errors
+ * @param options - Optional function to transform caught errors, or NeatCatchOptions
  * @returns A new function that returns a neat tuple when called
  */
 export function createNeatWrapper<TArgs extends any[], TReturn, E = Error>(
   fn: (...args: TArgs) => TReturn,
-  errorTransformer?: (error: unknown) => E
+  options?:
+    | ((error: unknown) => E)
+    | NeatCatchOptions<any, E>
+    | NeatCatchValidateOptions<StandardSchemaV1, any, E>
 ) {
-  return (...args: TArgs): any =>
-    neatCatch(() => fn(...args), errorTransformer);
+  return wrapWith(globalConfig, fn, options);
 }
 
 /**
- * Utility for handling multiple async operations and collecting results/errors.
- * The index of results and errors corresponds to the index of the input operations.
+ * Parses a JSON string and validates the result with a Standard Schema
+ * validator, such as a Zod, Valibot or ArkType schema
  *
- * @param operations - An array of functions returning Promises
- * @param errorTransformer - Optional function to transform caught errors
- * @returns An object with either all results or all errors
+ * @param input - The JSON text to parse
+ * @param schema - The schema the parsed value must match
+ * @param errorTransformer - Optional function to transform JSON syntax errors
+ * @returns A Promise of [validated value, null], or [null, SyntaxError | ValidationError]
  */
-export async function neatCatchAll<T extends readonly any[], E = Error>(
-  operations: { [K in keyof T]: () => Promise<T[K]> },
+export async function neatParse<S extends StandardSchemaV1, E = SyntaxError>(
+  input: string,
+  schema: S,
   errorTransformer?: (error: unknown) => E
-): Promise<{
-  results: { [K in keyof T]: T[K] | null } | null;
-  errors: { [K in keyof T]: E | null } | null;
-}> {
-  const settled = await Promise.allSettled(
-    operations.map((op) => neatCatch(op, errorTransformer))
+): Promise<[SchemaOutput<S>, null] | [null, E | ValidationError]> {
+  const [data, error] = tryCatch(
+    (): unknown => JSON.parse(input),
+    errorTransformer
   );
+  if (error !== null) return [null, error];
+  return validateWith(schema, data);
+}
 
-  const results: any[] = [];
-  const errors: any[] = [];
+/**
+ * Defaults and hooks applied by `neatCatch`, `createNeatWrapper`, `neatCatchAll`
+ * and `neatCatchRetry`. Options passed to a call take precedence.
+ */
+export type NeatCatchConfig = {
+  /** Transforms errors of calls that don't pass their own errorTransformer */
+  defaultErrorTransformer?: (error: unknown) => unknown;
+  /** Called with each untransformed error a call fails with */
+  onError?: (error: unknown) => void;
+  /** Called when an error transformer throws, with its error and the error being transformed */
+  onTransformerError?: (transformerError: unknown, error: unknown) => void;
+};
 
-  settled.forEach((result, index) => {
-    if (result.status === "fulfilled") {
-      const [data, error] = result.value;
-      if (error) {
-        errors[index] = error;
-      } else {
-        results[index] = data;
-      }
-    } else {
-      errors[index] = transformError(result.reason, errorTransformer);
-    }
-  });
+/**
+ * Functions bound to their own NeatCatchConfig, as returned by `createNeatCatch`
+ */
+export type NeatCatchInstance = {
+  neatCatch: typeof neatCatch;
+  createNeatWrapper: typeof createNeatWrapper;
+  neatCatchAll: typeof neatCatchAll;
+  neatCatchRetry: typeof neatCatchRetry;
+};
+
+/**
+ * Sets the config used by the exported `neatCatch`, `createNeatWrapper`,
+ * `neatCatchAll` and `neatCatchRetry`, replacing the previous one.
+ * Libraries should use `createNeatCatch` instead, so as not to override the app's config.
+ *
+ * @param config - The default error transformer and error hooks
+ */
+export function configureNeatCatch(config: NeatCatchConfig): void {
+  globalConfig = config;
+}
 
+/**
+ * Creates `neatCatch`, `createNeatWrapper`, `neatCatchAll` and `neatCatchRetry`
+ * functions that use their own config, independent of `configureNeatCatch`
+ *
+ * @param config - The default error transformer and error hooks
+ * @returns The functions, bound to the config
+ */
+export function createNeatCatch(config: NeatCatchConfig): NeatCatchInstance {
   return {
-    results: results.length
-      ? (results as { [K in keyof T]: T[K] | null })
-      : null,
-    errors: errors.length ? (errors as { [K in keyof T]: E | null }) : null,
+    neatCatch: (fn: NeatCatchInput, options?: any) =>
+      catchWith(config, fn, options),
+    createNeatWrapper: (fn: (...args: any[]) => any, options?: any) =>
+      wrapWith(config, fn, options),
+    neatCatchAll: (operations: any, options?: any) =>
+      catchAllWith(config, operations, options),
+    neatCatchRetry: (
+      fn: (signal: AbortSignal) => Promise<any>,
+      options?: any
+    ) => retryWith(config, fn, options),
   };
 }
 
-export type NeatCatchRetryOptions<E = Error> = {
-  maxRetries?: number;
-  delay?: number;
-  backoff?: "linear" | "exponential";
-  errorTransformer?: (error: unknown, attempt: number) => E;
-  shouldRetry?: (error: unknown, attempt: number) => boolean;
-};
+/**
+ * Method decorator that catches what a method throws or rejects with. The
+ * method is declared to return a NeatCatchResult (or a Promise or thenable of one) and
+ * returns `[data, null]` on success; errors, including returned ones, become
+ * `[null, error]` passed through the error transformer. `this` is preserved.
+ *
+ * @param errorTransformer - Optional function to transform caught errors
+ * @returns A TypeScript 5 (standard) method decorator
+ */
+export function NeatCatch<E = Error>(errorTransformer?: (error: unknown) => E) {
+  return <
+    This,
+    Args extends any[],
+    R extends NeatCatchResult<any, E> | PromiseLike<NeatCatchResult<any, E>>,
+  >(
+    method: (this: This, ...args: Args) => R,
+    _context: ClassMethodDecoratorContext<
+      This,
+      (this: This, ...args: Args) => R
+    >
+  ) =>
+    keepMethodMetadata(method, function (this: This, ...args: Args): R {
+      return neatCatch((): unknown => {
+        const result = method.apply(this, args);
+        const promise = fromThenable(result);
+        return promise
+          ? promise.then((value) =>
+              unwrapResult(value as NeatCatchResult<unknown, E>)
+            )
+          : unwrapResult(result as NeatCatchResult<unknown, E>);
+      }, errorTransformer) as R;
+    });
+}
 
 /**
- * Utility for retrying operations with neat error handling
+ * Method decorator that retries an async method with `neatCatchRetry`. The
+ * method is declared to return a Promise of a NeatCatchResult and returns
+ * `[data, null]` on success; thrown, rejected and returned errors are retried.
+ * `this` is preserved. Methods keep their own arguments, so they don't receive
+ * the attempt's AbortSignal: `signal`, `timeout` and `deadline` end the retry
+ * but cannot cancel work a method has already started.
  *
- * @param fn - The async function to execute
  * @param options - Configuration options for retries
- * @returns A tuple of [data | null, error | null] after retries
+ * @returns A TypeScript 5 (standard) method decorator
  */
-export async function neatCatchRetry<T, E = Error>(
-  fn: () => Promise<T>,
-  options: NeatCatchRetryOptions<E> = {}
-): Promise<[T, null] | [null, E]> {
-  const {
-    maxRetries = 3,
-    delay = 1000,
-    backoff = "exponential",
-    errorTransformer,
-    shouldRetry = () => true,
-  } = options;
-
-  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
-    const [data, error] = await neatCatch(fn);
-
-    if (!error) return [data, null];
+export function NeatRetry<E = Error>(
+  options?: Omit<NeatCatchRetryOptions<E>, "withStats">
+) {
+  return <This, Args extends any[], R extends Promise<NeatCatchResult<any, E>>>(
+    method: (this: This, ...args: Args) => R,
+    _context: ClassMethodDecoratorContext<
+      This,
+      (this: This, ...args: Args) => R
+    >
+  ) =>
+    keepMethodMetadata(method, function (this: This, ...args: Args): R {
+      return neatCatchRetry(
+        () =>
+          method
+            .apply(this, args)
+            .then(unwrapResult<Extract<Awaited<R>, [any, null]>[0]>),
+        options
+      ) as R;
+    });
+}
 
-    const isLastAttempt = attempt === maxRetries + 1;
-    const shouldContinue = !isLastAttempt && shouldRetry(error, attempt);
+export type NeatCatchAllOptions<E = Error> = {
+  errorTransformer?: (error: unknown) => E;
+  /** Maximum number of operations running at the same time, a positive integer. Default: Infinity */
+  concurrency?: number;
+  /**
+   * Stops scheduling operations that have not started yet; they fail with an AbortError.
+   * Operations receive a signal that also fires when this one aborts
+   */
+  signal?: AbortSignal;
+  /** Called each time an operation settles, with the number settled, the total and how many failed */
+  onProgress?: (completed: number, total: number, failed: number) => void;
+};
 
-    if (!shouldContinue) {
-      const transformedError = errorTransformer
-        ? transformError(error, (e) => errorTransformer(e, attempt))
-        : (error as E);
-      return [null, transformedError];
-    }
+/**
+ * Results and errors of `neatCatchAll`, keyed like the input operations
+ */
+export type NeatCatchAllResult<T, E = Error> = {
+  results: { [K in keyof T]: T[K] | null } | null;
+  errors: { [K in keyof T]: E | null } | null;
+};
 
-    // Calculate delay for next attempt
-    const nextDelay =
-      backoff === "exponential"
-        ? delay * Math.pow(2, attempt - 1)
-        : delay * attempt;
+// Overload for an array of operations
+export function neatCatchAll<T extends readonly any[], E = Error>(
+  operations: { [K in keyof T]: (signal: AbortSignal) => Promise<T[K]> },
+  options?: ((error: unknown) => E) | NeatCatchAllOptions<E>
+): Promise<NeatCatchAllResult<T, E>>;
 
-    console.log({ attempt, isLastAttempt, shouldContinue, nextDelay });
-    await new Promise((resolve) => setTimeout(resolve, nextDelay));
-  }
+// Overload for a record of named operations
+export function neatCatchAll<T extends Record<string, any>, E = Error>(
+  operations: { [K in keyof T]: (signal: AbortSignal) => Promise<T[K]> },
+  options?: ((error: unknown) => E) | NeatCatchAllOptions<E>
+): Promise<NeatCatchAllResult<T, E>>;
 
-  // This should never be reached, but TypeScript needs it
-  return [null, new Error("Unexpected retry loop exit") as E];
+/**
+ * Utility for handling multiple async operations and collecting results/errors.
+ * The index (or key) of results and errors corresponds to the index (or key) of the input operations.
+ *
+ * @param operations - An array or record of functions returning Promises
+ * @param options - Optional function to transform caught errors, or NeatCatchAllOptions
+ * @returns An object with either all results or all errors
+ */
+export function neatCatchAll<E = Error>(
+  operations: readonly Operation[] | Record<string, Operation>,
+  options?: ((error: unknown) => E) | NeatCatchAllOptions<E>
+): Promise<NeatCatchAllResult<any, E>> {
+  return catchAllWith(globalConfig, operations, options);
 }
 
 /**
- * Common error transformers for convenience
+ * An operation's tuple as yielded by `neatCatchStream`, with its index and key in the input
  */
-export const errorTransformers = {
-  /**
-   * Transforms any error into a simple message string
-   */
-  toString: (error: unknown): string => {
-    if (error instanceof Error) return error.message;
-    if (typeof error === "string") return error;
-    if (
-      error &&
-      typeof error === "object" &&
-      "message" in error &&
-      typeof error.message === "string"
-    ) {
-      return error.message;
-    }
-    return String(error);
-  },
-
-  /**
-   * Transforms errors into a structured object with message and stack
-   */
-  toObject: (
-    error: unknown
-  ): { message: string; stack?: string; name?: string; cause?: unknown } => {
-    if (error instanceof Error) {
-      return {
-        message: error.message,
-        stack: error.stack,
-        name: error.name,
-        ...(error.cause !== undefined && { cause: error.cause }),
+export type NeatCatchStreamItem<T, E = Error> = T extends readonly any[]
+  ? { index: number; key: number; result: NeatCatchResult<T[number], E> }
+  : {
+      [K in keyof T]: {
+        index: number;
+        key: K;
+        result: NeatCatchResult<T[K], E>;
       };
-    }
+    }[keyof T];
 
-    if (error && typeof error === "object") {
-      return {
-        message: (error as any).message || "Unknown error",
-        ...("stack" in error &&
-          typeof error.stack === "string" && { stack: error.stack }),
-        ...("name" in error &&
-          typeof error.name === "string" && { name: error.name }),
-        ...("cause" in error && { cause: error.cause }),
-      };
-    }
+/**
+ * Runs operations like `neatCatchAll` but yields each tuple as soon as its
+ * operation settles, in completion order. Breaking out of the loop stops
+ * scheduling and aborts the signal of the operations still in flight.
+ *
+ * @param operations - An array or record of functions returning Promises
+ * @param options - Optional function to transform caught errors, or NeatCatchAllOptions
+ * @returns An async iterator of `{ index, key, result }`
+ */
+export async function* neatCatchStream<
+  T extends readonly any[] | Record<string, any>,
+  E = Error,
+>(
+  operations: { [K in keyof T]: (signal: AbortSignal) => Promise<T[K]> },
+  options?: ((error: unknown) => E) | NeatCatchAllOptions<E>
+): AsyncGenerator<NeatCatchStreamItem<T, E>, void, undefined> {
+  const keys = Array.isArray(operations) ? null : Object.keys(operations);
+  const { signal, onProgress, ...rest } = toAllOptions(options);
 
-    return { message: String(error) };
-  },
+  // Aborted by the caller, or when the consumer stops iterating
+  const controller = new AbortController();
+  const disposeLink = linkAbort(controller, signal, (source) => source.reason);
 
-  /**
-   * Transforms errors into a structured object with timestamp
-   */
-  withTimestamp: (
-    error: unknown
-  ): { error: unknown; timestamp: number; isoString: string } => {
-    const now = Date.now();
-    return {
-      error,
-      timestamp: now,
-      isoString: new Date(now).toISOString(),
-    };
-  },
+  const queue: NeatCatchStreamItem<T, E>[] = [];
+  let done = false;
+  let closed = false;
+  let wake = () => {};
 
-  /**
-   * Transforms HTTP fetch errors into structured format
-   */
-  fetchError: (
-    error: unknown
-  ): {
-    message: string;
-    status?: number;
-    statusText?: string;
-    url?: string;
-    isNetworkError: boolean;
-    isTimeout: boolean;
-  } => {
-    // Handle Response objects (when fetch succeeds but response is not ok)
-    if (error && typeof error === "object" && "status" in error) {
-      return {
-        message: `HTTP error ${error.status}`,
-        status: Number(error.status),
-        statusText:
-          "statusText" in error ? String(error.statusText) : undefined,
-        url: "url" in error ? String(error.url) : undefined,
-        isNetworkError: false,
-        isTimeout: Number(error.status) === 408,
-      };
+  settleAll(
+    keys
+      ? keys.map((key) => (operations as Record<string, Operation>)[key])
+      : (operations as readonly Operation[]),
+    {
+      ...rest,
+      signal: controller.signal,
+      // Operations settling after the stream closed are not reported
+      onProgress:
+        onProgress &&
+        ((completed, total, failed) => {
+          if (!closed) onProgress(completed, total, failed);
+        }),
+    },
+    ({ result }, index) => {
+      queue.push({ index, key: keys ? keys[index] : index, result } as any);
+      wake();
+      return closed;
     }
+  ).then(() => {
+    done = true;
+    wake();
+  });
 
-    // Handle network errors
-    if (error instanceof TypeError) {
-      const message = error.message.toLowerCase();
-      return {
-        message: error.message,
-        isNetworkError:
-          message.includes("network") ||
-          message.includes("fetch") ||
-          message.includes("request"),
-        isTimeout: message.includes("timeout"),
-      };
+  try {
+    while (true) {
+      const item = queue.shift();
+      if (item) {
+        yield item;
+      } else if (done) {
+        return;
+      } else {
+        await new Promise<void>((resolve) => (wake = resolve));
+      }
     }
+  } finally {
+    closed = true;
+    controller.abort(new AbortError("Stream closed"));
+    disposeLink();
+  }
+}
 
-    // Handle timeout errors specifically
-    if (error instanceof Error && error.name === "TimeoutError") {
-      return {
-        message: error.message,
-        isNetworkError: true,
-        isTimeout: true,
-      };
-    }
+export type NeatCatchIterableOptions<E = Error> = {
+  errorTransformer?: (error: unknown) => E;
+  maxErrors?: number;
+};
 
-    // Handle other Error objects
-    if (error instanceof Error) {
-      return {
-        message: error.message,
-        isNetworkError: false,
-        isTimeout: false,
-      };
+/**
+ * Maps each item of an iterable or async iterable and yields a tuple per item,
+ * so one bad item does not end the loop. If the source itself fails, iteration
+ * ends with a final `[null, IterableSourceError]` tuple. After `maxErrors`
+ * failed items, iteration stops.
+ *
+ * @param source - An iterable or async iterable, such as a paginated API or a readable stream
+ * @param mapper - Optional function applied to each item (can be sync or async)
+ * @param options - Optional function to transform mapper errors, or NeatCatchIterableOptions
+ * @returns An async iterator of neat tuples
+ */
+export async function* neatCatchIterable<T, R = T, E = Error>(
+  source: AsyncIterable<T> | Iterable<T>,
+  mapper: (item: T, index: number) => R | Promise<R> = (item) =>
+    item as unknown as R,
+  options?: ((error: unknown) => E) | NeatCatchIterableOptions<E>
+): AsyncGenerator<NeatCatchResult<Awaited<R>, E | IterableSourceError>> {
+  const { errorTransformer, maxErrors = Infinity } =
+    typeof options === "function"
+      ? { errorTransformer: options }
+      : (options ?? {});
+  let index = 0;
+  let errors = 0;
+
+  try {
+    for await (const item of source) {
+      const result = await tryCatch(
+        async () => mapper(item, index++),
+        errorTransformer
+      );
+      yield result;
+
+      if (result[1] !== null && ++errors >= maxErrors) return;
     }
+  } catch (error) {
+    yield [null, new IterableSourceError(error)];
+  }
+}
 
-    // Fallback for unknown error types
-    return {
-      message: String(error),
-      isNetworkError: false,
-      isTimeout: false,
-    };
-  },
+/**
+ * Runs operations like `neatCatchAll` but stops at the first error, like `Promise.all`.
+ * Operations that have not started are skipped and in-flight ones have their signal aborted.
+ *
+ * @param operations - An array of functions returning Promises
+ * @param options - Optional function to transform caught errors, or NeatCatchAllOptions
+ * @returns A tuple of [all results in input order, null] or [null, first error]
+ */
+export async function neatCatchFailFast<T extends readonly any[], E = Error>(
+  operations: { [K in keyof T]: (signal: AbortSignal) => Promise<T[K]> },
+  options?: ((error: unknown) => E) | NeatCatchAllOptions<E>
+): Promise<[T, null] | [null, E]> {
+  let failure: [null, E] | undefined;
+
+  const settled = await settleAll(
+    operations,
+    toAllOptions(options),
+    ({ result, failed }) => {
+      if (!failed) return false;
+      failure = [null, result[1] as E];
+      return true;
+    }
+  );
+
+  return (
+    failure ?? [settled.map(({ result: [data] }) => data) as unknown as T, null]
+  );
+}
+
+/**
+ * Returns the first operation to succeed, like `Promise.any`. The remaining
+ * operations are skipped or have their signal aborted once one succeeds.
+ *
+ * @param operations - An array of functions returning Promises
+ * @param options - Optional function to transform caught errors, or NeatCatchAllOptions
+ * @returns A tuple of [first result, null] or [null, AggregateError of every error in input order]
+ */
+export async function neatCatchAny<T extends readonly any[], E = Error>(
+  operations: { [K in keyof T]: (signal: AbortSignal) => Promise<T[K]> },
+  options?: ((error: unknown) => E) | NeatCatchAllOptions<E>
+): Promise<[T[number], null] | [null, AggregateError & { errors: E[] }]> {
+  let success: [T[number], null] | undefined;
+
+  const settled = await settleAll(
+    operations,
+    toAllOptions(options),
+    ({ result, failed }) => {
+      if (failed) return false;
+      success = [result[0], null];
+      return true;
+    }
+  );
+
+  return (
+    success ?? [
+      null,
+      new AggregateError(
+        settled.map(({ result: [, error] }) => error),
+        "All operations failed"
+      ),
+    ]
+  );
+}
+
+/**
+ * Returns the first operation to settle, success or error, like `Promise.race`.
+ * The remaining operations have their signal aborted.
+ *
+ * @param operations - An array of functions returning Promises
+ * @param options - Optional function to transform caught errors, or an options object with a signal
+ * @returns A tuple of [first result, null] or [null, first error]
+ */
+export async function neatCatchRace<T extends readonly any[], E = Error>(
+  operations: { [K in keyof T]: (signal: AbortSignal) => Promise<T[K]> },
+  options?:
+    | ((error: unknown) => E)
+    | Omit<NeatCatchAllOptions<E>, "concurrency">
+): Promise<[T[number], null] | [null, E]> {
+  const { errorTransformer, signal } = toAllOptions(options);
+  let first: NeatCatchResult<T[number], E> | undefined;
+
+  await settleAll(operations, { errorTransformer, signal }, ({ result }) => {
+    first = result;
+    return true;
+  });
+
+  return (
+    first ?? [
+      null,
+      transformError(new Error("No operations to race"), errorTransformer),
+    ]
+  );
+}
+
+/**
+ * Error returned when an operation is cancelled through an AbortSignal
+ */
+export class AbortError extends Error {
+  constructor(
+    message = "The operation was aborted",
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * Error returned when an operation does not settle within its time limit
+ */
+export class TimeoutError extends Error {
+  readonly timeout: number;
+
+  constructor(
+    timeout: number,
+    message = `Operation timed out after ${timeout}ms`
+  ) {
+    super(message);
+    this.name = "TimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Error returned by a circuit breaker instead of calling the wrapped function
+ */
+export class CircuitOpenError extends Error {
+  readonly retryAfter: number;
+
+  constructor(retryAfter: number) {
+    super(`Circuit is open, retry after ${retryAfter}ms`);
+    this.name = "CircuitOpenError";
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Error returned by a rate limited wrapper when no call is available in time
+ */
+export class RateLimitedError extends Error {
+  readonly retryAfter: number;
+
+  constructor(retryAfter: number) {
+    super(`Rate limit exceeded, retry after ${retryAfter}ms`);
+    this.name = "RateLimitedError";
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Error returned by a bulkhead when no slot is available in time
+ */
+export class BulkheadFullError extends Error {
+  constructor(message = "Bulkhead is full") {
+    super(message);
+    this.name = "BulkheadFullError";
+  }
+}
+
+/**
+ * Error returned by `neatCatchIterable` when the source itself fails. The
+ * source's error is kept in `cause`.
+ */
+export class IterableSourceError extends Error {
+  constructor(cause: unknown) {
+    super("Iterating the source failed", { cause });
+    this.name = "IterableSourceError";
+  }
+}
+
+/**
+ * Issue reported by a schema, with the path of the invalid value
+ */
+export type ValidationIssue = {
+  message: string;
+  path: PropertyKey[];
+};
+
+/**
+ * Error returned when a value does not match its schema. The schema's issues
+ * are kept in `issues`.
+ */
+export class ValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: readonly StandardSchemaIssue[]) {
+    const normalized = issues.map(({ message, path = [] }) => ({
+      message,
+      path: path.map((segment) =>
+        typeof segment === "object" ? segment.key : segment
+      ),
+    }));
+    super(
+      `Validation failed: ${normalized
+        .map(({ message, path }) =>
+          path.length ? `${path.map(String).join(".")}: ${message}` : message
+        )
+        .join("; ")}`
+    );
+    this.name = "ValidationError";
+    this.issues = normalized;
+  }
+}
+
+/**
+ * Error used in place of a falsy thrown value, so that a failed result always
+ * has a truthy error. The thrown value is kept in `value`.
+ */
+export class NonErrorThrown extends Error {
+  readonly value: unknown;
+
+  constructor(value: unknown) {
+    super(
+      `Non-error value thrown: ${
+        typeof value === "string" ? JSON.stringify(value) : String(value)
+      }`
+    );
+    this.name = "NonErrorThrown";
+    this.value = value;
+  }
+}
+
+/**
+ * How the delay grows between attempts: a built-in curve based on `delay`,
+ * or a function returning the delay in ms for the given attempt
+ */
+export type NeatCatchBackoff =
+  | "linear"
+  | "exponential"
+  | ((attempt: number, error: unknown) => number);
+
+/**
+ * Randomization applied to the backoff delay so that clients do not retry in lockstep.
+ * - `full`: random between 0 and the delay
+ * - `equal`: half the delay plus a random amount up to the other half
+ * - `decorrelated`: random between `delay` and three times the previous delay (ignores `backoff`)
+ */
+export type NeatCatchJitter = "none" | "full" | "equal" | "decorrelated";
+
+/**
+ * Details passed to the `neatCatchRetry` lifecycle hooks
+ */
+export type NeatCatchRetryEvent = {
+  /** The attempt that just finished, starting at 1 */
+  attempt: number;
+  /** Time in ms since the first attempt started */
+  elapsed: number;
+};
+
+/**
+ * Attempt count and total duration reported by `neatCatchRetry` when `withStats` is set
+ */
+export type NeatCatchRetryStats = {
+  attempts: number;
+  duration: number;
+};
+
+export type NeatCatchRetryOptions<E = Error, C = unknown> = {
+  maxRetries?: number;
+  delay?: number;
+  backoff?: NeatCatchBackoff;
+  jitter?: NeatCatchJitter;
+  /** Upper bound in ms for any single delay between attempts */
+  maxDelay?: number;
+  /**
+   * Takes the delay from the error instead of the backoff. `true` reads the
+   * Retry-After header of Response-like errors; a function may return a delay
+   * in ms, or undefined to fall back to the backoff
+   */
+  retryAfter?: boolean | ((error: unknown) => number | undefined);
+  /** Only errors matching these classes (or this predicate) are retried and returned; anything else is rethrown at once */
+  catch?: NeatCatchFilter<C>;
+  errorTransformer?: (error: C, attempt: number) => E;
+  shouldRetry?: (error: C, attempt: number) => boolean;
+  /** Cancels the in-flight attempt and any pending delay between attempts */
+  signal?: AbortSignal;
+  /** Maximum time in ms a single attempt may take before it fails with a TimeoutError */
+  timeout?: number;
+  /** Maximum time in ms for all attempts and delays combined */
+  deadline?: number;
+  /** Called after a failed attempt, before waiting `delay` ms for the next one */
+  onRetry?: (
+    event: NeatCatchRetryEvent & { error: unknown; delay: number }
+  ) => void;
+  /** Called once when no further attempts will be made, with the untransformed error */
+  onGiveUp?: (event: NeatCatchRetryEvent & { error: unknown }) => void;
+  /** Called once when an attempt succeeds */
+  onSuccess?: (event: NeatCatchRetryEvent) => void;
+  /** Appends a NeatCatchRetryStats object as the third element of the result tuple */
+  withStats?: boolean;
+};
+
+// Overload for results with retry stats, narrowed to the caught error classes;
+// cancellations and timeouts are returned regardless of the filter
+export function neatCatchRetry<T, C>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: NeatCatchRetryOptions<C, C> & {
+    catch: NeatCatchFilter<C>;
+    errorTransformer?: undefined;
+    withStats: true;
+  }
+): Promise<RetryResult<T, C | AbortError | TimeoutError, NeatCatchRetryStats>>;
+
+// Overload for results with retry stats
+export function neatCatchRetry<T, E = Error, C = unknown>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: NeatCatchRetryOptions<E, C> & { withStats: true }
+): Promise<RetryResult<T, E, NeatCatchRetryStats>>;
+
+// Overload for plain results, narrowed to the caught error classes;
+// cancellations and timeouts are returned regardless of the filter
+export function neatCatchRetry<T, C>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: NeatCatchRetryOptions<C, C> & {
+    catch: NeatCatchFilter<C>;
+    errorTransformer?: undefined;
+  }
+): Promise<RetryResult<T, C | AbortError | TimeoutError>>;
+
+// Overload for plain results
+export function neatCatchRetry<T, E = Error, C = unknown>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  options?: NeatCatchRetryOptions<E, C>
+): Promise<RetryResult<T, E>>;
+
+/**
+ * Utility for retrying operations with neat error handling
+ *
+ * The function receives an AbortSignal that fires when the caller aborts,
+ * the attempt times out or the overall deadline is exceeded, so it can be
+ * forwarded to `fetch` or any other cancellable API.
+ *
+ * @param fn - The async function to execute
+ * @param options - Configuration options for retries
+ * @returns A tuple of [data | null, error | null] after retries
+ */
+export function neatCatchRetry<T, E = Error>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  options?: NeatCatchRetryOptions<E, any>
+): Promise<any> {
+  return retryWith(globalConfig, fn, options);
+}
+
+export type NeatCatchTimeoutOptions<E = Error> = {
+  errorTransformer?: (error: unknown) => E;
+  /** Cancels the operation before the time limit is reached */
+  signal?: AbortSignal;
+  /** Message of the TimeoutError */
+  message?: string;
+};
+
+/**
+ * Races an operation against a time limit and returns a neat tuple.
+ * When the limit is reached the operation's AbortSignal fires and the
+ * result is a TimeoutError (passed through the error transformer like any other error).
+ * The timer is always cleared once the operation settles.
+ *
+ * @param fn - The sync or async function to execute. Receives an AbortSignal to forward to cancellable APIs
+ * @param ms - The time limit in milliseconds
+ * @param options - Optional error transformer, external signal and timeout message
+ * @returns A Promise of [data | null, error | null]
+ */
+export async function neatCatchTimeout<T, E = Error>(
+  fn: (signal: AbortSignal) => T | Promise<T>,
+  ms: number,
+  options: NeatCatchTimeoutOptions<E> = {}
+): Promise<[Awaited<T>, null] | [null, E]> {
+  const { errorTransformer, signal, message } = options;
+
+  const controller = new AbortController();
+  const disposeTimeout = [
+    linkAbort(
+      controller,
+      signal,
+      (source) => new AbortError(undefined, { cause: source.reason })
+    ),
+    abortAfter(controller, ms, (ms) => new TimeoutError(ms, message)),
+  ];
+
+  try {
+    return await tryCatch(() => {
+      // Don't start the work when the signal is already aborted
+      if (controller.signal.aborted) throw controller.signal.reason;
+      return abortable(
+        Promise.resolve(fn(controller.signal)),
+        controller.signal
+      );
+    }, errorTransformer);
+  } finally {
+    disposeTimeout.forEach((dispose) => dispose());
+  }
+}
+
+/**
+ * Calls a function taking a Node-style `(error, value)` callback as its last
+ * argument and converts the outcome to a neat tuple
+ *
+ * @param fn - The callback-based function, e.g. `fs.readFile`. Bind it first if it relies on `this`
+ * @param args - The arguments to pass before the callback
+ * @returns A Promise of [value, null] or [null, error]
+ */
+export function neatCallback<A extends any[], T = void>(
+  fn: (...args: [...A, (error: any, value?: T) => void]) => unknown,
+  ...args: A
+): Promise<[T, null] | [null, Error]> {
+  return tryCatch(
+    () =>
+      new Promise<T>((resolve, reject) => {
+        fn(...args, (error: unknown, value?: T) =>
+          error ? reject(error) : resolve(value as T)
+        );
+      })
+  ) as Promise<[T, null] | [null, Error]>;
+}
+
+/**
+ * An event emitter such as Node's EventEmitter
+ */
+export type NeatEventEmitter = {
+  on(event: string | symbol, listener: (...args: any[]) => void): unknown;
+  removeListener(
+    event: string | symbol,
+    listener: (...args: any[]) => void
+  ): unknown;
+};
+
+export type NeatOnceOptions<E = Error> = {
+  errorEvent?: string | symbol | null;
+  timeout?: number;
+  signal?: AbortSignal;
+  errorTransformer?: (error: unknown) => E;
+};
+
+/**
+ * Waits for an emitter to emit an event. Fails if the error event is emitted
+ * first, the timeout is reached or the signal aborts. Listeners are removed
+ * as soon as it settles.
+ *
+ * @param emitter - The event emitter to listen to
+ * @param event - The event to wait for
+ * @param options - The error event (default: "error"), timeout, signal and error transformer
+ * @returns A Promise of [event arguments, null] or [null, error]
+ */
+export async function neatOnce<A extends any[] = any[], E = Error>(
+  emitter: NeatEventEmitter,
+  event: string | symbol,
+  options: NeatOnceOptions<E> = {}
+): Promise<[A, null] | [null, E]> {
+  const { errorEvent = "error", timeout, signal, errorTransformer } = options;
+
+  const controller = new AbortController();
+  const disposeTimeout = [
+    linkAbort(
+      controller,
+      signal,
+      (source) => new AbortError(undefined, { cause: source.reason })
+    ),
+    abortAfter(
+      controller,
+      timeout,
+      (ms) =>
+        new TimeoutError(
+          ms,
+          `Timed out after ${ms}ms waiting for "${String(event)}"`
+        )
+    ),
+  ];
+
+  let onEvent!: (...args: any[]) => void;
+  let onError!: (error: unknown) => void;
+  const emitted = new Promise<A>((resolve, reject) => {
+    onEvent = (...args) => resolve(args as A);
+    onError = reject;
+  });
+  emitter.on(event, onEvent);
+  if (errorEvent !== null) emitter.on(errorEvent, onError);
+
+  try {
+    return await tryCatch(
+      () => abortable(emitted, controller.signal),
+      errorTransformer
+    );
+  } finally {
+    emitter.removeListener(event, onEvent);
+    if (errorEvent !== null) emitter.removeListener(errorEvent, onError);
+    disposeTimeout.forEach((dispose) => dispose());
+  }
+}
+
+/**
+ * A step of a fallback chain: a function, or a function with its own retry
+ * options and fall-through predicate
+ */
+export type NeatCatchFallbackStep<T> =
+  | ((signal: AbortSignal) => T | Promise<T>)
+  | {
+      fn: (signal: AbortSignal) => T | Promise<T>;
+      retry?: Omit<
+        NeatCatchRetryOptions,
+        "catch" | "errorTransformer" | "signal" | "withStats"
+      >;
+      shouldFallback?: (error: unknown) => boolean;
+    };
+
+export type NeatCatchFallbackOptions<E = Error> = {
+  errorTransformer?: (error: unknown, step: number) => E;
+  shouldFallback?: (error: unknown, step: number) => boolean;
+  signal?: AbortSignal;
+};
+
+/**
+ * Tries each step in order and returns the first success. A failed step falls
+ * through to the next one unless its `shouldFallback` predicate, or the one in
+ * the options, returns false.
+ *
+ * @param steps - Functions or step objects to try, e.g. primary, replica, cache
+ * @param options - Optional function to transform caught errors, or NeatCatchFallbackOptions
+ * @returns A tuple of [first result, null] or [null, AggregateError of the errors of every step tried]
+ */
+export async function neatCatchFallback<T extends readonly any[], E = Error>(
+  steps: { [K in keyof T]: NeatCatchFallbackStep<T[K]> },
+  options?: ((error: unknown) => E) | NeatCatchFallbackOptions<E>
+): Promise<[T[number], null] | [null, AggregateError & { errors: E[] }]> {
+  const {
+    errorTransformer,
+    shouldFallback = () => true,
+    signal,
+  }: NeatCatchFallbackOptions<E> = typeof options === "function"
+    ? { errorTransformer: options }
+    : (options ?? {});
+  const errors: E[] = [];
+
+  for (const [index, step] of steps.entries()) {
+    const {
+      fn,
+      retry,
+      shouldFallback: stepShouldFallback = (error: unknown) =>
+        shouldFallback(error, index),
+    } = typeof step === "function" ? { fn: step } : step;
+
+    const [data, error] = await retryWith({}, async (s) => fn(s), {
+      maxRetries: 0,
+      ...retry,
+      signal,
+    });
+    if (!error) return [data, null];
+
+    errors.push(
+      transformError(
+        error,
+        errorTransformer && ((e: unknown) => errorTransformer(e, index))
+      )
+    );
+
+    if (signal?.aborted || !stepShouldFallback(error)) {
+      return [
+        null,
+        new AggregateError(errors, `Step ${index} failed without falling back`),
+      ];
+    }
+  }
+
+  return [null, new AggregateError(errors, "All fallbacks failed")];
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitBreakerStats = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failures: number;
+  successes: number;
+  rejected: number;
+};
+
+export type CircuitBreakerOptions<E = Error> = {
+  failureThreshold?: number;
+  resetTimeout?: number;
+  halfOpenMaxCalls?: number;
+  isFailure?: (error: unknown) => boolean;
+  errorTransformer?: (error: unknown) => E;
+  onStateChange?: (event: { from: CircuitState; to: CircuitState }) => void;
+};
+
+export type CircuitBreaker<TArgs extends any[], T, E = Error> = {
+  (...args: TArgs): Promise<[T, null] | [null, E | CircuitOpenError]>;
+  readonly state: CircuitState;
+  readonly stats: CircuitBreakerStats;
+  reset(): void;
+};
+
+/**
+ * Wraps an async function in a circuit breaker. After `failureThreshold`
+ * consecutive failures the circuit opens and calls return a CircuitOpenError
+ * without calling the function. After `resetTimeout` ms up to
+ * `halfOpenMaxCalls` trial calls are let through: if they all succeed the
+ * circuit closes, and any failure opens it again.
+ *
+ * @param fn - The async function to protect
+ * @param options - Thresholds, failure classification and a state change hook
+ * @returns A function returning neat tuples, with the circuit state and counts
+ */
+export function createCircuitBreaker<TArgs extends any[], T, E = Error>(
+  fn: (...args: TArgs) => Promise<T>,
+  options: CircuitBreakerOptions<E> = {}
+): CircuitBreaker<TArgs, T, E> {
+  const {
+    failureThreshold = 5,
+    resetTimeout = 30000,
+    halfOpenMaxCalls = 1,
+    isFailure = () => true,
+    errorTransformer,
+    onStateChange,
+  } = options;
+
+  let state: CircuitState = "closed";
+  let openedAt = 0;
+  // Incremented on every transition, so calls started in an earlier state don't affect the current one
+  let generation = 0;
+  let trials = 0;
+  let trialSuccesses = 0;
+  const counts = {
+    consecutiveFailures: 0,
+    failures: 0,
+    successes: 0,
+    rejected: 0,
+  };
+
+  const transition = (to: CircuitState) => {
+    const from = state;
+    state = to;
+    generation++;
+    trials = 0;
+    trialSuccesses = 0;
+    if (to === "open") openedAt = Date.now();
+    if (to === "closed") counts.consecutiveFailures = 0;
+    callHook(onStateChange, { from, to });
+  };
+
+  const currentState = () => {
+    if (state === "open" && Date.now() - openedAt >= resetTimeout) {
+      transition("half-open");
+    }
+    return state;
+  };
+
+  const breaker = async (...args: TArgs) => {
+    const current = currentState();
+    if (
+      current === "open" ||
+      (current === "half-open" && trials >= halfOpenMaxCalls)
+    ) {
+      counts.rejected++;
+      return [
+        null,
+        new CircuitOpenError(Math.max(0, openedAt + resetTimeout - Date.now())),
+      ];
+    }
+
+    if (current === "half-open") trials++;
+    const callGeneration = generation;
+    const [data, error] = await tryCatch(() => fn(...args));
+    // Errors rejected by `isFailure` count as successes: the function did respond
+    const failed = error !== null && isFailure(error);
+
+    if (failed) {
+      counts.failures++;
+    } else {
+      counts.successes++;
+    }
+
+    if (callGeneration === generation) {
+      if (failed) {
+        counts.consecutiveFailures++;
+        if (
+          state === "half-open" ||
+          counts.consecutiveFailures >= failureThreshold
+        ) {
+          transition("open");
+        }
+      } else {
+        counts.consecutiveFailures = 0;
+        if (state === "half-open" && ++trialSuccesses >= halfOpenMaxCalls) {
+          transition("closed");
+        }
+      }
+    }
+
+    return error
+      ? [null, transformError(error, errorTransformer)]
+      : [data, null];
+  };
+
+  return Object.defineProperties(breaker, {
+    state: { get: currentState },
+    stats: { get: () => ({ state: currentState(), ...counts }) },
+    reset: {
+      value: () => {
+        if (state !== "closed") transition("closed");
+        counts.consecutiveFailures = 0;
+      },
+    },
+  }) as CircuitBreaker<TArgs, T, E>;
+}
+
+export type RateLimitedWrapperOptions<E = Error> = {
+  limit: number;
+  interval: number;
+  burst?: number;
+  wait?: boolean;
+  queueTimeout?: number;
+  errorTransformer?: (error: unknown) => E;
+};
+
+export type RateLimitedWrapper<TArgs extends any[], T, E = Error> = {
+  (...args: TArgs): Promise<[T, null] | [null, E | RateLimitedError]>;
+  readonly available: number;
+};
+
+/**
+ * Creates a wrapped version of a function that allows at most `limit` calls
+ * per `interval` ms, using a token bucket that holds up to `burst` calls.
+ * Excess calls return a RateLimitedError, or wait for their turn with `wait`.
+ *
+ * @param fn - The function to wrap (can be sync or async)
+ * @param options - The rate, waiting behavior and error transformer
+ * @returns A new function that returns a neat tuple when called
+ */
+export function createRateLimitedWrapper<
+  TArgs extends any[],
+  TReturn,
+  E = Error,
+>(
+  fn: (...args: TArgs) => TReturn,
+  options: RateLimitedWrapperOptions<E>
+): RateLimitedWrapper<TArgs, Awaited<TReturn>, E> {
+  const {
+    limit,
+    interval,
+    burst = limit,
+    wait = false,
+    queueTimeout,
+    errorTransformer,
+  } = options;
+  const rate = limit / interval;
+  let tokens = burst;
+  let updatedAt = Date.now();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + (now - updatedAt) * rate);
+    updatedAt = now;
+  };
+
+  const wrapper = async (...args: TArgs) => {
+    refill();
+    const delay = tokens >= 1 ? 0 : Math.ceil((1 - tokens) / rate);
+    if (
+      delay > 0 &&
+      (!wait || (queueTimeout !== undefined && delay > queueTimeout))
+    ) {
+      return [null, new RateLimitedError(delay)];
+    }
+
+    // Waiting calls reserve their token up front, so they run in call order
+    tokens -= 1;
+    if (delay > 0) await sleep(delay);
+    return tryCatch(async () => fn(...args), errorTransformer);
+  };
+
+  return Object.defineProperties(wrapper, {
+    available: {
+      get: () => {
+        refill();
+        return Math.max(0, Math.floor(tokens));
+      },
+    },
+  }) as RateLimitedWrapper<TArgs, Awaited<TReturn>, E>;
+}
+
+export type BulkheadOptions<E = Error> = {
+  maxConcurrent: number;
+  maxQueue?: number;
+  queueTimeout?: number;
+  errorTransformer?: (error: unknown) => E;
+};
+
+export type Bulkhead<TArgs extends any[], T, E = Error> = {
+  (...args: TArgs): Promise<[T, null] | [null, E | BulkheadFullError]>;
+  readonly active: number;
+  readonly queued: number;
+};
+
+/**
+ * Creates a wrapped version of a function that runs at most `maxConcurrent`
+ * calls at a time. Up to `maxQueue` extra calls wait for a free slot; calls
+ * beyond that, or waiting longer than `queueTimeout` ms, return a BulkheadFullError.
+ *
+ * @param fn - The function to wrap (can be sync or async)
+ * @param options - The concurrency limit, queue bounds and error transformer
+ * @returns A new function that returns a neat tuple when called
+ */
+export function createBulkhead<TArgs extends any[], TReturn, E = Error>(
+  fn: (...args: TArgs) => TReturn,
+  options: BulkheadOptions<E>
+): Bulkhead<TArgs, Awaited<TReturn>, E> {
+  const {
+    maxConcurrent,
+    maxQueue = 0,
+    queueTimeout,
+    errorTransformer,
+  } = options;
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const acquire = (): Promise<boolean> =>
+    new Promise((resolve) => {
+      const timer =
+        queueTimeout === undefined
+          ? undefined
+          : setTimeout(() => {
+              queue.splice(queue.indexOf(grant), 1);
+              resolve(false);
+            }, queueTimeout);
+      const grant = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      queue.push(grant);
+    });
+
+  // Hands the slot straight to the next queued call, if any
+  const release = () => {
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  const bulkhead = async (...args: TArgs) => {
+    if (active < maxConcurrent) {
+      active++;
+    } else if (queue.length >= maxQueue) {
+      return [null, new BulkheadFullError()];
+    } else if (!(await acquire())) {
+      return [
+        null,
+        new BulkheadFullError(
+          `Timed out after ${queueTimeout}ms waiting for a bulkhead slot`
+        ),
+      ];
+    }
+
+    try {
+      return await tryCatch(async () => fn(...args), errorTransformer);
+    } finally {
+      release();
+    }
+  };
+
+  return Object.defineProperties(bulkhead, {
+    active: { get: () => active },
+    queued: { get: () => queue.length },
+  }) as Bulkhead<TArgs, Awaited<TReturn>, E>;
+}
+
+export type CachedNeatWrapperOptions<TArgs extends any[], E = Error> = {
+  key?: (...args: TArgs) => string;
+  ttl?: number;
+  maxSize?: number;
+  cacheErrors?: boolean;
+  errorTransformer?: (error: unknown) => E;
+};
+
+export type CachedNeatWrapper<TArgs extends any[], T, E = Error> = {
+  (...args: TArgs): Promise<[T, null] | [null, E]>;
+  invalidate(key: string): void;
+  clear(): void;
+};
+
+/**
+ * Creates a wrapped version of a function that shares one call between
+ * concurrent calls with the same key. With `ttl`, successful results are
+ * also cached for that many ms, keeping at most `maxSize` entries. Errors
+ * are only cached with `cacheErrors`.
+ *
+ * @param fn - The function to wrap (can be sync or async)
+ * @param options - The key function, cache bounds and error transformer
+ * @returns A new function that returns a neat tuple when called
+ */
+export function createCachedNeatWrapper<
+  TArgs extends any[],
+  TReturn,
+  E = Error,
+>(
+  fn: (...args: TArgs) => TReturn,
+  options: CachedNeatWrapperOptions<TArgs, E> = {}
+): CachedNeatWrapper<TArgs, Awaited<TReturn>, E> {
+  const {
+    key: getKey = (...args: TArgs) => JSON.stringify(args),
+    ttl,
+    maxSize = Infinity,
+    cacheErrors = false,
+    errorTransformer,
+  } = options;
+  type Result = NeatCatchResult<Awaited<TReturn>, E>;
+  const inFlight = new Map<string, Promise<Result>>();
+  // Map order doubles as recency order: the first entry is evicted first
+  const cache = new Map<string, { result: Result; expiresAt: number }>();
+
+  const wrapper = (...args: TArgs): Promise<Result> => {
+    const key = getKey(...args);
+    const cached = cache.get(key);
+    if (cached) {
+      cache.delete(key);
+      if (cached.expiresAt > Date.now()) {
+        cache.set(key, cached);
+        return Promise.resolve(cached.result);
+      }
+    }
+
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const promise = tryCatch(async () => fn(...args), errorTransformer).then(
+      (result) => {
+        // Skip results of calls that were invalidated while in flight
+        if (inFlight.get(key) !== promise) return result;
+        inFlight.delete(key);
+
+        if (ttl !== undefined && (result[1] === null || cacheErrors)) {
+          cache.set(key, { result, expiresAt: Date.now() + ttl });
+          if (cache.size > maxSize) {
+            cache.delete(cache.keys().next().value as string);
+          }
+        }
+        return result;
+      }
+    );
+    inFlight.set(key, promise);
+    return promise;
+  };
+
+  return Object.assign(wrapper, {
+    invalidate: (key: string) => {
+      inFlight.delete(key);
+      cache.delete(key);
+    },
+    clear: () => {
+      inFlight.clear();
+      cache.clear();
+    },
+  });
+}
+
+export type NeatifyOptions<
+  E = Error,
+  I extends string = string,
+  X extends string = never,
+> = {
+  errorTransformer?: (error: unknown) => E;
+  /** Only wrap these methods, by path such as "user.findMany". A namespace path includes all of its methods */
+  include?: readonly I[];
+  /** Leave these methods or namespaces unwrapped, by path */
+  exclude?: readonly X[];
+};
+
+/**
+ * A client whose methods, including those of nested namespaces, return neat
+ * tuples. `I` and `X` are the included and excluded paths.
+ */
+export type Neatified<
+  T,
+  E = Error,
+  I extends string = string,
+  X extends string = never,
+  P extends string = "",
+> = {
+  [K in keyof T]: K extends string
+    ? `${P}${K}` extends X
+      ? T[K]
+      : NeatifiedProperty<
+          T[K],
+          E,
+          `${P}${K}` extends I ? string : I,
+          X,
+          `${P}${K}.`
+        >
+    : T[K];
+};
+
+/**
+ * Wraps every method of a client, including methods of nested namespaces
+ * such as `db.user.findMany`, so they return neat tuples. Methods are called
+ * with the client as `this`, other properties are returned as they are, and
+ * wrapped methods are cached.
+ *
+ * @param client - The object whose methods should be wrapped
+ * @param options - The error transformer and the method paths to include or exclude
+ * @returns A Proxy of the client with tuple-returning methods
+ */
+export function neatify<
+  T extends object,
+  E = Error,
+  I extends string = string,
+  X extends string = never,
+>(client: T, options: NeatifyOptions<E, I, X> = {}): Neatified<T, E, I, X> {
+  return neatifyAt(client, "", options, false);
+}
+
+/**
+ * Field schema of a tagged error. Each field maps to a function producing its
+ * value, such as `String`, `Number` or `(value: User) => value`
+ */
+export type TaggedErrorSchema = Record<string, (value: any) => unknown>;
+
+/**
+ * Payload fields described by a TaggedErrorSchema
+ */
+export type TaggedErrorFields<S extends TaggedErrorSchema> = {
+  [K in keyof S]: ReturnType<S[K]>;
+};
+
+/**
+ * An error created by a `defineError` class: an Error with a literal `_tag` and its payload fields
+ */
+export type TaggedError<TTag extends string = string, TFields = {}> = Error & {
+  readonly _tag: TTag;
+} & Readonly<TFields>;
+
+export type TaggedErrorOptions = {
+  message?: string;
+  cause?: unknown;
+};
+
+/**
+ * Error class returned by `defineError`
+ */
+export type TaggedErrorClass<TTag extends string, TFields> = {
+  new (
+    ...args: {} extends TFields
+      ? [fields?: TFields, options?: TaggedErrorOptions]
+      : [fields: TFields, options?: TaggedErrorOptions]
+  ): TaggedError<TTag, TFields>;
+  readonly tag: TTag;
+};
+
+/**
+ * Defines an Error subclass with a literal `_tag` and typed payload fields.
+ * Instances are serialized with their tag and fields by `errorTransformers.toObject`.
+ *
+ * @param tag - The tag, also used as the error name
+ * @param schema - Functions producing each payload field from the constructor argument
+ * @param message - Optional function building the default message from the fields
+ * @returns The error class
+ */
+export function defineError<
+  TTag extends string,
+  S extends TaggedErrorSchema = {},
+>(
+  tag: TTag,
+  schema: S = {} as S,
+  message?: (fields: TaggedErrorFields<S>) => string
+): TaggedErrorClass<TTag, TaggedErrorFields<S>> {
+  return class extends TaggedErrorBase {
+    static readonly tag = tag;
+    static readonly fieldNames = Object.keys(schema);
+
+    constructor(
+      fields = {} as TaggedErrorFields<S>,
+      options: TaggedErrorOptions = {}
+    ) {
+      super(
+        tag,
+        options.message ?? message?.(fields) ?? tag,
+        "cause" in options ? { cause: options.cause } : undefined
+      );
+      for (const key of Object.keys(schema)) {
+        (this as any)[key] = schema[key](fields[key]);
+      }
+    }
+  } as any;
+}
+
+/**
+ * Handlers for every tag of a tagged error union
+ */
+export type TaggedErrorHandlers<E extends TaggedError, R> = {
+  [K in E["_tag"]]: (error: Extract<E, { _tag: K }>) => R;
+};
+
+/**
+ * Calls the handler for the error's tag. Type checking fails unless every tag
+ * in the error union has a handler.
+ *
+ * @param error - A tagged error, e.g. from a `defineError` class
+ * @param handlers - One handler per tag
+ * @returns The value returned by the matching handler
+ */
+export function matchError<E extends TaggedError, R>(
+  error: E,
+  handlers: TaggedErrorHandlers<E, R>
+): R {
+  const handler = handlers[error._tag as E["_tag"]];
+  return handler(error as any);
+}
+
+/**
+ * JSON-safe representation of an error produced by `serializeError`.
+ * Custom properties of the error are kept alongside the standard ones.
+ */
+export type SerializedError = {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+  errors?: unknown[];
+  [property: string]: unknown;
+};
+
+export type SerializeErrorOptions = {
+  /** Nesting depth after which values are replaced by "[MaxDepth]". Default: 10 */
+  maxDepth?: number;
+  /** Length after which strings are truncated. Default: 10000 */
+  maxLength?: number;
+};
+
+/**
+ * Converts an error into a JSON-safe object, including its custom properties,
+ * its cause chain and the errors of an AggregateError. Circular references are
+ * replaced by "[Circular]". Plain objects keep their properties, using their
+ * `name` and `message` when they are strings; other values become an error
+ * with their string as message.
+ *
+ * @param error - The error to serialize
+ * @param options - Depth and string length limits
+ * @returns An object that can be passed to JSON.stringify or postMessage
+ */
+export function serializeError(
+  error: unknown,
+  options: SerializeErrorOptions = {}
+): SerializedError {
+  const { maxDepth = 10, maxLength = 10000 } = options;
+  const serialized = toJSONSafe(error, { maxDepth, maxLength });
+  if (error instanceof Error) return serialized as SerializedError;
+
+  if (
+    typeof serialized !== "object" ||
+    serialized === null ||
+    Array.isArray(serialized)
+  ) {
+    return {
+      name: "Error",
+      message: toJSONSafe(String(error), { maxDepth, maxLength }) as string,
+    };
+  }
+  const { name, message } = serialized as Record<string, unknown>;
+  return {
+    ...serialized,
+    name: typeof name === "string" ? name : "Error",
+    message: typeof message === "string" ? message : "Unknown error",
+  };
+}
+
+/**
+ * Converts the output of `serializeError` back into an Error. Errors whose
+ * name matches a registered class become instances of that class, without
+ * calling its constructor; others become plain Errors. Causes and aggregated
+ * errors are revived too.
+ *
+ * @param serialized - A serialized error, e.g. parsed from JSON
+ * @returns The revived error
+ */
+export function deserializeError(serialized: unknown): Error {
+  if (!isSerializedError(serialized)) {
+    return new Error(
+      typeof serialized === "string"
+        ? serialized
+        : (JSON.stringify(serialized) ?? String(serialized))
+    );
+  }
+  return reviveError(serialized);
+}
+
+/**
+ * Registers an error class so that `deserializeError` revives errors with its
+ * name as instances of it. Built-in errors and the errors of this library are
+ * registered already.
+ *
+ * @param ErrorClass - The error class, e.g. one created by `defineError`
+ * @param name - The error name to match. Default: the class's tag or name
+ */
+export function registerErrorClass(
+  ErrorClass: abstract new (...args: any[]) => Error,
+  name: string = "tag" in ErrorClass && typeof ErrorClass.tag === "string"
+    ? ErrorClass.tag
+    : ErrorClass.name
+): void {
+  errorClasses.set(name, ErrorClass);
+}
+
+/**
+ * An error class or a predicate to look for in an error's causes
+ */
+export type ErrorMatcher<C> =
+  | (abstract new (...args: any[]) => C)
+  | ((error: unknown) => error is C)
+  | ((error: unknown) => boolean);
+
+/**
+ * Lists an error followed by its cause, the cause's cause and so on. Stops at
+ * a value without a cause, at a cycle or after `maxDepth` links.
+ *
+ * @param error - The error to start from
+ * @param maxDepth - Maximum number of cause links to follow. Default: 100
+ * @returns The error and its causes, outermost first
+ */
+export function getCauseChain(error: unknown, maxDepth = 100): unknown[] {
+  return walkErrors(error, maxDepth, false);
+}
+
+/**
+ * Returns the innermost cause of an error, or the error itself if it has no cause
+ *
+ * @param error - The error to start from
+ * @param maxDepth - Maximum number of cause links to follow. Default: 100
+ * @returns The last error of the cause chain
+ */
+export function rootCause(error: unknown, maxDepth = 100): unknown {
+  return getCauseChain(error, maxDepth).at(-1);
+}
+
+/**
+ * Lists an error and every error reachable from it through `cause` and
+ * `AggregateError.errors`, depth first, each listed once
+ *
+ * @param error - The error to start from
+ * @param maxDepth - Maximum nesting depth to walk. Default: 100
+ * @returns The error and every nested error
+ */
+export function flattenErrors(error: unknown, maxDepth = 100): unknown[] {
+  return walkErrors(error, maxDepth, true);
+}
+
+/**
+ * Finds the first error, among an error and its nested causes and aggregated
+ * errors, that is an instance of the class or matches the predicate
+ *
+ * @param error - The error to search
+ * @param matcher - An error class or a predicate
+ * @param maxDepth - Maximum nesting depth to walk. Default: 100
+ * @returns The matching error, or undefined
+ */
+export function findCause<C>(
+  error: unknown,
+  matcher: ErrorMatcher<C>,
+  maxDepth = 100
+): C | undefined {
+  const byClass = isClass(matcher);
+  const isMatch = (value: unknown) =>
+    byClass
+      ? value instanceof (matcher as abstract new (...args: any[]) => C)
+      : (matcher as (error: unknown) => boolean)(value);
+  return flattenErrors(error, maxDepth).find(isMatch) as C | undefined;
+}
+
+/**
+ * Common error transformers for convenience
+ */
+export const errorTransformers = {
+  /**
+   * Transforms any error into a simple message string
+   */
+  toString: (error: unknown): string => {
+    if (error instanceof Error) return error.message;
+    if (typeof error === "string") return error;
+    if (
+      error &&
+      typeof error === "object" &&
+      "message" in error &&
+      typeof error.message === "string"
+    ) {
+      return error.message;
+    }
+    return String(error);
+  },
+
+  /**
+   * Transforms errors into a structured object with message and stack
+   */
+  toObject: (
+    error: unknown
+  ): {
+    message: string;
+    stack?: string;
+    name?: string;
+    cause?: unknown;
+    _tag?: string;
+    [field: string]: unknown;
+  } => {
+    if (error instanceof Error) {
+      return {
+        message: error.message,
+        stack: error.stack,
+        name: error.name,
+        ...(error.cause !== undefined && { cause: error.cause }),
+        ...(error instanceof TaggedErrorBase && error.toJSON()),
+      };
+    }
+
+    if (error && typeof error === "object") {
+      return {
+        message: (error as any).message || "Unknown error",
+        ...("stack" in error &&
+          typeof error.stack === "string" && { stack: error.stack }),
+        ...("name" in error &&
+          typeof error.name === "string" && { name: error.name }),
+        ...("cause" in error && { cause: error.cause }),
+      };
+    }
+
+    return { message: String(error) };
+  },
+
+  /**
+   * Transforms errors into a structured object with timestamp
+   */
+  withTimestamp: (
+    error: unknown
+  ): { error: unknown; timestamp: number; isoString: string } => {
+    const now = Date.now();
+    return {
+      error,
+      timestamp: now,
+      isoString: new Date(now).toISOString(),
+    };
+  },
+
+  /**
+   * Transforms HTTP fetch errors into structured format
+   */
+  fetchError: (
+    error: unknown
+  ): {
+    message: string;
+    status?: number;
+    statusText?: string;
+    url?: string;
+    isNetworkError: boolean;
+    isTimeout: boolean;
+  } => {
+    // Handle Response objects (when fetch succeeds but response is not ok)
+    if (error && typeof error === "object" && "status" in error) {
+      return {
+        message: `HTTP error ${error.status}`,
+        status: Number(error.status),
+        statusText:
+          "statusText" in error ? String(error.statusText) : undefined,
+        url: "url" in error ? String(error.url) : undefined,
+        isNetworkError: false,
+        isTimeout: Number(error.status) === 408,
+      };
+    }
+
+    // Handle network errors
+    if (error instanceof TypeError) {
+      const message = error.message.toLowerCase();
+      return {
+        message: error.message,
+        isNetworkError:
+          message.includes("network") ||
+          message.includes("fetch") ||
+          message.includes("request"),
+        isTimeout: message.includes("timeout"),
+      };
+    }
+
+    // Handle timeout errors specifically
+    if (error instanceof Error && error.name === "TimeoutError") {
+      return {
+        message: error.message,
+        isNetworkError: true,
+        isTimeout: true,
+      };
+    }
+
+    // Handle other Error objects
+    if (error instanceof Error) {
+      return {
+        message: error.message,
+        isNetworkError: false,
+        isTimeout: false,
+      };
+    }
+
+    // Fallback for unknown error types
+    return {
+      message: String(error),
+      isNetworkError: false,
+      isTimeout: false,
+    };
+  },
 
   /**
    * Wraps an error with additional context information
@@ -304,47 +1898,521 @@ export const errorTransformers = {
     (error: unknown): T & { error: unknown } => ({
       ...context,
       error,
-    }),
+    }),
+
+  /**
+   * Converts errors into JSON-safe objects with their custom properties, causes and aggregated errors
+   */
+  serialize: (error: unknown): SerializedError => serializeError(error),
+
+  /**
+   * Renders an error with its causes and aggregated errors as indented lines, for logs
+   */
+  withCauseChain: (error: unknown): string => renderErrorTree(error).join("\n"),
+
+  /**
+   * Simplifies errors by extracting only the message and discarding other properties
+   */
+  toSimpleError: (error: unknown): { message: string } => ({
+    message: error instanceof Error ? error.message : String(error),
+  }),
+
+  /**
+   * Transforms errors for logging purposes with detailed information
+   */
+  forLogging: (
+    error: unknown
+  ): {
+    message: string;
+    stack?: string;
+    name?: string;
+    timestamp: number;
+    environment?: string;
+  } => {
+    const baseError = errorTransformers.toObject(error);
+    return {
+      ...baseError,
+      timestamp: Date.now(),
+      ...(typeof process !== "undefined" &&
+        process.env &&
+        process.env.NODE_ENV && {
+          environment: process.env.NODE_ENV,
+        }),
+    };
+  },
+};
+
+/**
+ * Pure helpers for working with NeatCatchResult tuples, such as the results of
+ * `neatCatch`, `createNeatWrapper` and `neatCatchRetry`
+ */
+export const neatResult = {
+  /**
+   * Type guard for successful results
+   */
+  isOk: <R extends AnyResult>(result: R): result is Extract<R, [any, null]> =>
+    result[1] === null,
+
+  /**
+   * Type guard for failed results
+   */
+  isErr: <R extends AnyResult>(result: R): result is Exclude<R, [any, null]> =>
+    result[1] !== null,
+
+  /**
+   * Transforms the data of a successful result, leaving errors untouched
+   */
+  map: <R extends AnyResult, U>(
+    result: R,
+    fn: (data: ResultData<R>) => U
+  ): NeatCatchResult<U, ResultError<R>> =>
+    neatResult.isOk(result) ? [fn(result[0]), null] : [null, result[1]],
+
+  /**
+   * Transforms the error of a failed result, leaving successes untouched
+   */
+  mapError: <R extends AnyResult, F>(
+    result: R,
+    fn: (error: ResultError<R>) => F
+  ): NeatCatchResult<ResultData<R>, F> =>
+    neatResult.isOk(result) ? [result[0], null] : [null, fn(result[1])],
+
+  /**
+   * Chains an operation that itself returns a result onto a successful result
+   */
+  andThen: <R extends AnyResult, S extends AnyResult>(
+    result: R,
+    fn: (data: ResultData<R>) => S
+  ): NeatCatchResult<ResultData<S>, ResultError<R> | ResultError<S>> =>
+    neatResult.isOk(result) ? fn(result[0]) : [null, result[1]],
+
+  /**
+   * Alias of `andThen`
+   */
+  flatMap: <R extends AnyResult, S extends AnyResult>(
+    result: R,
+    fn: (data: ResultData<R>) => S
+  ): NeatCatchResult<ResultData<S>, ResultError<R> | ResultError<S>> =>
+    neatResult.andThen(result, fn),
+
+  /**
+   * Like `andThen`, but accepts a pending result and an async operation
+   */
+  andThenAsync: async <R extends AnyResult, S extends AnyResult>(
+    result: R | Promise<R>,
+    fn: (data: ResultData<R>) => S | Promise<S>
+  ): Promise<
+    NeatCatchResult<ResultData<S>, ResultError<R> | ResultError<S>>
+  > => {
+    const settled = await result;
+    return neatResult.isOk(settled) ? fn(settled[0]) : [null, settled[1]];
+  },
+
+  /**
+   * Returns the data of a successful result, or throws its error
+   */
+  unwrap: <R extends AnyResult>(result: R): ResultData<R> => {
+    if (neatResult.isErr(result)) throw result[1];
+    return result[0];
+  },
+
+  /**
+   * Returns the data of a successful result, or the fallback
+   */
+  unwrapOr: <R extends AnyResult, D>(
+    result: R,
+    fallback: D
+  ): ResultData<R> | D => (neatResult.isOk(result) ? result[0] : fallback),
+
+  /**
+   * Returns the data of a successful result, or computes a fallback from the error
+   */
+  unwrapOrElse: <R extends AnyResult, D>(
+    result: R,
+    fn: (error: ResultError<R>) => D
+  ): ResultData<R> | D => (neatResult.isOk(result) ? result[0] : fn(result[1])),
+
+  /**
+   * Handles both outcomes of a result and returns the handler's value
+   */
+  match: <R extends AnyResult, A, B = A>(
+    result: R,
+    handlers: {
+      ok: (data: ResultData<R>) => A;
+      err: (error: ResultError<R>) => B;
+    }
+  ): A | B =>
+    neatResult.isOk(result) ? handlers.ok(result[0]) : handlers.err(result[1]),
+
+  /**
+   * Creates a result from a value that may be null or undefined
+   */
+  fromNullable: <T, E>(
+    value: T,
+    error: E
+  ): NeatCatchResult<NonNullable<T>, E> =>
+    value == null ? [null, error] : [value as NonNullable<T>, null],
+
+  /**
+   * Converts a result into a Promise that resolves with the data or rejects with the error
+   */
+  toPromise: <R extends AnyResult>(result: R): Promise<ResultData<R>> =>
+    neatResult.isOk(result)
+      ? Promise.resolve(result[0])
+      : Promise.reject(result[1]),
+};
+
+/**
+ * Config set by `configureNeatCatch`
+ */
+let globalConfig: NeatCatchConfig = {};
+
+/**
+ * Runs a function like `neatCatch`, without the configured default transformer and hooks
+ */
+const tryCatch: typeof neatCatch = (fn: NeatCatchInput, options?: any) =>
+  catchWith({}, fn, options);
+
+/**
+ * Implementation of `neatCatch`, reporting and transforming errors with the given config
+ */
+const catchWith = <E>(
+  config: NeatCatchConfig,
+  fn: NeatCatchInput,
+  options?:
+    | ((error: unknown) => E)
+    | Partial<NeatCatchValidateOptions<StandardSchemaV1, any, E>>
+): any => {
+  const {
+    catch: filter,
+    errorTransformer,
+    validate,
+  } = typeof options === "function"
+    ? { errorTransformer: options }
+    : (options ?? {});
+
+  if (validate) {
+    // Validation may be async, so validated results are always Promises,
+    // rejected rather than thrown for errors outside the `catch` filter
+    return new Promise<NeatCatchResult<unknown, E>>((resolve) =>
+      resolve(catchWith(config, fn, { catch: filter, errorTransformer }))
+    ).then(async ([data, error]: NeatCatchResult<unknown, E>) => {
+      if (error !== null) return [null, error];
+      const result = await validateWith(validate, data);
+      if (result[1]) callHook(config.onError, result[1]);
+      return result;
+    });
+  }
+
+  const handleError = (error: unknown): [null, E] => {
+    const thrown = error || new NonErrorThrown(error);
+    if (filter && !isCaught(thrown, filter)) throw error;
+    return [null, reportError(thrown, errorTransformer, config)];
+  };
+
+  try {
+    const result = typeof fn === "function" ? fn() : fn;
+    const promise = fromThenable(result);
+
+    if (promise) {
+      return promise.then((data: unknown) => [data, null]).catch(handleError);
+    }
+
+    return [result, null];
+  } catch (error) {
+    return handleError(error);
+  }
+};
+
+/**
+ * Implementation of `createNeatWrapper`, using the given config
+ */
+const wrapWith =
+  <TArgs extends any[], E>(
+    config: NeatCatchConfig,
+    fn: (...args: TArgs) => unknown,
+    options?:
+      | ((error: unknown) => E)
+      | Partial<NeatCatchValidateOptions<StandardSchemaV1, any, E>>
+  ) =>
+  (...args: TArgs): any =>
+    catchWith(config, () => fn(...args), options);
+
+/**
+ * Implementation of `neatify` for the namespace at the given path prefix
+ */
+const neatifyAt = <E>(
+  target: object,
+  prefix: string,
+  options: NeatifyOptions<E, string, string>,
+  included: boolean
+): any => {
+  const { include, exclude, errorTransformer } = options;
+  const cache = new Map<string, { value: unknown; neat: unknown }>();
+
+  return new Proxy(target, {
+    get(target, key) {
+      const value: unknown = Reflect.get(target, key);
+      if (
+        typeof key === "symbol" ||
+        key === "constructor" ||
+        // Inherited Object methods such as toString and hasOwnProperty
+        value === Reflect.get(Object.prototype, key) ||
+        (typeof value !== "function" && !isNamespace(value))
+      ) {
+        return value;
+      }
+
+      // A Proxy must return read-only, non-configurable properties unchanged,
+      // such as those of a frozen client
+      const descriptor = Reflect.getOwnPropertyDescriptor(target, key);
+      if (
+        descriptor &&
+        "value" in descriptor &&
+        !descriptor.configurable &&
+        !descriptor.writable
+      ) {
+        return value;
+      }
+
+      const cached = cache.get(key);
+      if (cached && cached.value === value) return cached.neat;
+
+      const path = prefix + key;
+      const excluded = exclude?.includes(path) ?? false;
+      const wrap =
+        !excluded && (included || !include || include.includes(path));
+      let neat: unknown;
+      if (typeof value === "function") {
+        neat = wrap
+          ? (...args: unknown[]) =>
+              catchWith(
+                globalConfig,
+                () => value.apply(target, args),
+                errorTransformer
+              )
+          : value.bind(target);
+      } else {
+        neat = excluded
+          ? value
+          : neatifyAt(value as object, `${path}.`, options, wrap);
+      }
+      cache.set(key, { value, neat });
+      return neat;
+    },
+  });
+};
+
+/**
+ * Implementation of `neatCatchAll`, reporting and transforming errors with the given config
+ */
+const catchAllWith = async <E>(
+  config: NeatCatchConfig,
+  operations: readonly Operation[] | Record<string, Operation>,
+  options?: ((error: unknown) => E) | NeatCatchAllOptions<E>
+): Promise<NeatCatchAllResult<any, E>> => {
+  const keys = Array.isArray(operations) ? null : Object.keys(operations);
+  const settled = await settleAll(
+    keys
+      ? keys.map((key) => (operations as Record<string, Operation>)[key])
+      : (operations as readonly Operation[]),
+    toAllOptions(options),
+    undefined,
+    config
+  );
+
+  const results: any = keys ? {} : [];
+  const errors: any = keys ? {} : [];
+  let hasResults = false;
+  let hasErrors = false;
+
+  settled.forEach(({ result: [data, error], failed }, index) => {
+    const key = keys ? keys[index] : index;
+    if (failed) {
+      errors[key] = error;
+      hasErrors = true;
+    } else {
+      results[key] = data;
+      hasResults = true;
+    }
+  });
+
+  return {
+    results: hasResults ? results : null,
+    errors: hasErrors ? errors : null,
+  };
+};
+
+/**
+ * Implementation of `neatCatchRetry`, reporting and transforming errors with the given config
+ */
+const retryWith = async <T, E>(
+  config: NeatCatchConfig,
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: NeatCatchRetryOptions<E, any> = {}
+): Promise<any> => {
+  const {
+    maxRetries = 3,
+    delay = 1000,
+    backoff = "exponential",
+    jitter = "none",
+    maxDelay = Infinity,
+    retryAfter = false,
+    catch: filter,
+    errorTransformer,
+    shouldRetry = () => true,
+    signal,
+    timeout,
+    deadline,
+    onRetry,
+    onGiveUp,
+    onSuccess,
+    withStats = false,
+  } = options;
+
+  const startedAt = Date.now();
+  let attempts = 0;
+
+  const settle = (result: [T, null] | [null, unknown]) =>
+    withStats
+      ? [...result, { attempts, duration: Date.now() - startedAt }]
+      : result;
+
+  const succeed = (data: T) => {
+    callHook(onSuccess, { attempt: attempts, elapsed: Date.now() - startedAt });
+    return settle([data, null]);
+  };
+
+  // Cancellations and timeouts are transformed like any other error
+  const giveUp = (error: unknown) => {
+    callHook(config.onError, error);
+    callHook(onGiveUp, {
+      attempt: attempts,
+      error,
+      elapsed: Date.now() - startedAt,
+    });
+    return settle([
+      null,
+      transformError(
+        error,
+        errorTransformer
+          ? (e) => errorTransformer(e, attempts)
+          : config.defaultErrorTransformer,
+        config.onTransformerError
+      ),
+    ]);
+  };
 
-  /**
-   * Simplifies errors by extracting only the message and discarding other properties
-   */
-  toSimpleError: (error: unknown): { message: string } => ({
-    message: error instanceof Error ? error.message : String(error),
-  }),
+  // Aborted by the caller or by the overall deadline; ends the whole retry loop
+  const run = new AbortController();
+  const disposeRun = [
+    linkAbort(
+      run,
+      signal,
+      (source) => new AbortError(undefined, { cause: source.reason })
+    ),
+    abortAfter(
+      run,
+      deadline,
+      (ms) => new TimeoutError(ms, `Retry deadline of ${ms}ms exceeded`)
+    ),
+  ];
 
-  /**
-   * Transforms errors for logging purposes with detailed information
-   */
-  forLogging: (
-    error: unknown
-  ): {
-    message: string;
-    stack?: string;
-    name?: string;
-    timestamp: number;
-    environment?: string;
-  } => {
-    const baseError = errorTransformers.toObject(error);
-    return {
-      ...baseError,
-      timestamp: Date.now(),
-      ...(typeof process !== "undefined" &&
-        process.env &&
-        process.env.NODE_ENV && {
-          environment: process.env.NODE_ENV,
-        }),
-    };
-  },
+  let previousDelay = delay;
+
+  try {
+    for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+      if (run.signal.aborted) {
+        return giveUp(run.signal.reason);
+      }
+
+      // Aborted by the run or by the per-attempt timeout; ends this attempt only
+      const current = new AbortController();
+      const disposeAttempt = [
+        linkAbort(current, run.signal, (source) => source.reason),
+        abortAfter(current, timeout, (ms) => new TimeoutError(ms)),
+      ];
+
+      attempts = attempt;
+      let result: NeatCatchResult<unknown, unknown>;
+      try {
+        result = await tryCatch(
+          () => abortable(fn(current.signal), current.signal),
+          {
+            // Errors outside the `catch` filter are rethrown, except cancellations and timeouts of the attempt
+            catch: (e) =>
+              !filter || e === current.signal.reason || isCaught(e, filter),
+          }
+        );
+      } finally {
+        disposeAttempt.forEach((dispose) => dispose());
+      }
+      const [data, error] = result;
+
+      if (!error) return succeed(data as T);
+      if (run.signal.aborted) {
+        return giveUp(run.signal.reason);
+      }
+
+      const isLastAttempt = attempt === maxRetries + 1;
+      const shouldContinue = !isLastAttempt && shouldRetry(error, attempt);
+
+      if (!shouldContinue) return giveUp(error);
+
+      const nextDelay = getRetryDelay(attempt, error, previousDelay, {
+        delay,
+        backoff,
+        jitter,
+        maxDelay,
+        retryAfter,
+      });
+      previousDelay = nextDelay;
+
+      callHook(onRetry, {
+        attempt,
+        error,
+        delay: nextDelay,
+        elapsed: Date.now() - startedAt,
+      });
+      const [, sleepError] = await tryCatch(() => sleep(nextDelay, run.signal));
+      if (sleepError) return giveUp(run.signal.reason);
+    }
+  } finally {
+    disposeRun.forEach((dispose) => dispose());
+  }
+
+  // This should never be reached, but TypeScript needs it
+  return settle([null, new Error("Unexpected retry loop exit") as E]);
+};
+
+/**
+ * Reports a caught error to the config's `onError` hook and transforms it,
+ * using the config's default transformer when none is given
+ */
+const reportError = <E>(
+  error: unknown,
+  transformer: ((error: unknown) => E) | undefined,
+  config: NeatCatchConfig
+): E => {
+  callHook(config.onError, error);
+  return transformError(
+    error,
+    transformer ?? (config.defaultErrorTransformer as (error: unknown) => E),
+    config.onTransformerError
+  );
 };
 
 const transformError = <E>(
   error: unknown,
-  transformer?: (error: unknown) => E
+  transformer?: (error: unknown) => E,
+  onTransformerError?: NeatCatchConfig["onTransformerError"]
 ): E => {
   try {
     return transformer ? transformer(error) : (error as E);
   } catch (transformError) {
+    if (onTransformerError) {
+      tryCatch(() => onTransformerError(transformError, error));
+    }
     return new AggregateError(
       [error, transformError],
       "Error transforming error. Both errors are in the 'errors' property."
@@ -352,8 +2420,624 @@ const transformError = <E>(
   }
 };
 
+/**
+ * Base class of the classes created by `defineError`
+ */
+class TaggedErrorBase extends Error {
+  readonly _tag: string;
+
+  constructor(tag: string, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = tag;
+    this._tag = tag;
+  }
+
+  /**
+   * The tag and payload fields
+   */
+  toJSON(): { _tag: string; [field: string]: unknown } {
+    const { fieldNames } = this.constructor as unknown as {
+      fieldNames: string[];
+    };
+    return Object.fromEntries([
+      ["_tag", this._tag],
+      ...fieldNames.map((key) => [key, (this as any)[key]]),
+    ]);
+  }
+}
+
+type Operation = (signal: AbortSignal) => Promise<unknown>;
+
+type SettledOperation<E> = {
+  result: NeatCatchResult<any, E>;
+  /** Whether the operation failed, independent of what the error transformer returned */
+  failed: boolean;
+};
+
+const toAllOptions = <E>(
+  options: ((error: unknown) => E) | NeatCatchAllOptions<E> | undefined
+): NeatCatchAllOptions<E> =>
+  typeof options === "function"
+    ? { errorTransformer: options }
+    : (options ?? {});
+
+/**
+ * Runs operations with at most `concurrency` in flight and returns their
+ * tuples in input order. Operations not yet started when the signal aborts
+ * get an AbortError instead of running.
+ *
+ * When `onSettled` returns true, no further operations are started, in-flight
+ * ones have their signal aborted, and the tuples collected so far are returned
+ * without waiting for them.
+ */
+const settleAll = async <E>(
+  operations: readonly Operation[],
+  options: NeatCatchAllOptions<E>,
+  onSettled?: (operation: SettledOperation<E>, index: number) => boolean,
+  config: NeatCatchConfig = {}
+): Promise<SettledOperation<E>[]> => {
+  const {
+    errorTransformer,
+    concurrency: requested = Infinity,
+    signal,
+    onProgress,
+  } = options;
+  // Anything but a positive integer or Infinity falls back to the default
+  const concurrency =
+    requested === Infinity || (Number.isInteger(requested) && requested > 0)
+      ? requested
+      : Infinity;
+
+  const controller = new AbortController();
+  const disposeLink = linkAbort(
+    controller,
+    signal,
+    (source) => new AbortError(undefined, { cause: source.reason })
+  );
+
+  const settled: SettledOperation<E>[] = [];
+  let next = 0;
+  let completed = 0;
+  let failed = 0;
+  let stopped = false;
+  let stop = () => {};
+  const stopping = new Promise<void>((resolve) => (stop = resolve));
+
+  // Each worker picks up the next unscheduled operation until none are left
+  const worker = async () => {
+    while (!stopped && next < operations.length) {
+      const index = next++;
+      // Transformed separately so that a falsy transformed error still counts as a failure
+      const [data, error] = controller.signal.aborted
+        ? [null, controller.signal.reason]
+        : await tryCatch(() => operations[index](controller.signal));
+      if (stopped) return;
+
+      const operation: SettledOperation<E> = error
+        ? {
+            result: [null, reportError(error, errorTransformer, config)],
+            failed: true,
+          }
+        : { result: [data, null], failed: false };
+
+      settled[index] = operation;
+      completed++;
+      if (operation.failed) failed++;
+      if (onProgress) {
+        tryCatch(() => onProgress(completed, operations.length, failed));
+      }
+
+      if (onSettled?.(operation, index)) {
+        stopped = true;
+        controller.abort(new AbortError("No longer needed"));
+        stop();
+      }
+    }
+  };
+
+  try {
+    await Promise.race([
+      Promise.all(
+        Array.from({ length: Math.min(concurrency, operations.length) }, worker)
+      ),
+      stopping,
+    ]);
+  } finally {
+    disposeLink();
+  }
+
+  return settled;
+};
+
+/**
+ * Error classes revived by `deserializeError`, by name
+ */
+const errorClasses = new Map<string, abstract new (...args: any[]) => Error>(
+  [
+    Error,
+    TypeError,
+    RangeError,
+    ReferenceError,
+    SyntaxError,
+    EvalError,
+    URIError,
+    AggregateError,
+    AbortError,
+    TimeoutError,
+    NonErrorThrown,
+    CircuitOpenError,
+    RateLimitedError,
+    BulkheadFullError,
+    IterableSourceError,
+    ValidationError,
+  ].map((ErrorClass) => [ErrorClass.name, ErrorClass])
+);
+
+/**
+ * Converts a value into a JSON-safe value, expanding the standard properties of errors
+ */
+const toJSONSafe = (
+  value: unknown,
+  limits: Required<SerializeErrorOptions>,
+  depth = 0,
+  ancestors = new Set<object>()
+): unknown => {
+  if (typeof value === "string") {
+    return value.length > limits.maxLength
+      ? `${value.slice(0, limits.maxLength)}…`
+      : value;
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : String(value);
+  }
+  if (typeof value === "bigint") return String(value);
+  if (value === null || typeof value === "boolean") return value;
+  // undefined, functions and symbols are left out
+  if (typeof value !== "object") return undefined;
+  if (ancestors.has(value)) return "[Circular]";
+  if (depth >= limits.maxDepth) return "[MaxDepth]";
+
+  const next = (item: unknown) =>
+    toJSONSafe(item, limits, depth + 1, ancestors);
+  ancestors.add(value);
+
+  try {
+    if (Array.isArray(value)) return value.map((item) => next(item) ?? null);
+    if (
+      !(value instanceof Error) &&
+      typeof (value as any).toJSON === "function"
+    ) {
+      return next((value as any).toJSON());
+    }
+
+    const entries: [string, unknown][] = Object.entries(value);
+    if (value instanceof Error) {
+      entries.unshift(
+        ["name", value.name],
+        ["message", value.message],
+        ["stack", value.stack]
+      );
+      if (value.cause !== undefined) entries.push(["cause", value.cause]);
+      if (value instanceof AggregateError) {
+        entries.push(["errors", value.errors]);
+      }
+    }
+
+    return Object.fromEntries(
+      entries
+        .map(([key, item]) => [key, next(item)])
+        .filter(([, item]) => item !== undefined)
+    );
+  } finally {
+    ancestors.delete(value);
+  }
+};
+
+/**
+ * Whether a value has the shape of a serialized error
+ */
+const isSerializedError = (value: unknown): value is SerializedError =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as SerializedError).name === "string" &&
+  typeof (value as SerializedError).message === "string";
+
+/**
+ * Recreates an error from its serialized form, as an instance of its registered class.
+ * Causes and aggregated errors nested deeper than 100 levels are left serialized.
+ */
+const reviveError = (serialized: SerializedError, depth = 0): Error => {
+  const { name, message, stack, cause, errors, ...properties } = serialized;
+  const ErrorClass = errorClasses.get(name) ?? Error;
+  const error: Error = Object.create(ErrorClass.prototype);
+  const revive = (value: unknown) =>
+    isSerializedError(value) && depth < 100
+      ? reviveError(value, depth + 1)
+      : value;
+  const define = (key: string, value: unknown, enumerable = false) =>
+    Object.defineProperty(error, key, {
+      value,
+      writable: true,
+      enumerable,
+      configurable: true,
+    });
+
+  define("message", message);
+  if (stack !== undefined) define("stack", stack);
+  if ("cause" in serialized) define("cause", revive(cause));
+  if (Array.isArray(errors)) define("errors", errors.map(revive));
+  if (error.name !== name) error.name = name;
+  // Defined rather than assigned, so a parsed "__proto__" key cannot replace the prototype
+  for (const [key, value] of Object.entries(properties)) {
+    if (key !== "__proto__") define(key, value, true);
+  }
+  return error;
+};
+
+/**
+ * Collects an error and its causes, and with `aggregates` the errors of
+ * AggregateErrors, depth first and skipping values already visited
+ */
+const walkErrors = (
+  error: unknown,
+  maxDepth: number,
+  aggregates: boolean
+): unknown[] => {
+  const visited = new Set<unknown>();
+
+  const visit = (value: unknown, depth: number) => {
+    if (depth > maxDepth || visited.has(value)) return;
+    visited.add(value);
+    if (typeof value !== "object" || value === null) return;
+
+    if (aggregates && value instanceof AggregateError) {
+      for (const nested of value.errors) visit(nested, depth + 1);
+    }
+    const { cause } = value as { cause?: unknown };
+    if (cause !== undefined) visit(cause, depth + 1);
+  };
+
+  visit(error, 0);
+  return [...visited];
+};
+
+/**
+ * Renders an error and its nested errors as lines indented by depth
+ */
+const renderErrorTree = (
+  error: unknown,
+  maxDepth = 100,
+  depth = 0,
+  ancestors = new Set<unknown>()
+): string[] => {
+  const line =
+    error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+  if (ancestors.has(error)) return [`${line} [Circular]`];
+  if (depth >= maxDepth || typeof error !== "object" || error === null) {
+    return [line];
+  }
+
+  ancestors.add(error);
+  const indent = (prefix: string, lines: string[]) =>
+    lines.map((nested, i) =>
+      i === 0 ? `  ${prefix}${nested}` : `  ${nested}`
+    );
+  const lines = [line];
+
+  if (error instanceof AggregateError) {
+    error.errors.forEach((nested, i) =>
+      lines.push(
+        ...indent(
+          `[${i}] `,
+          renderErrorTree(nested, maxDepth, depth + 1, ancestors)
+        )
+      )
+    );
+  }
+  const { cause } = error as { cause?: unknown };
+  if (cause !== undefined) {
+    lines.push(
+      ...indent(
+        "caused by: ",
+        renderErrorTree(cause, maxDepth, depth + 1, ancestors)
+      )
+    );
+  }
+
+  ancestors.delete(error);
+  return lines;
+};
+
+/**
+ * Validates a value with a Standard Schema, returning the schema's output or a ValidationError
+ */
+const validateWith = async <S extends StandardSchemaV1>(
+  schema: S,
+  value: unknown
+): Promise<[SchemaOutput<S>, null] | [null, ValidationError]> => {
+  const result = await schema["~standard"].validate(value);
+  if (result.issues) return [null, new ValidationError(result.issues)];
+  // Narrowed with `in`, which also works in builds without strictNullChecks
+  const output = "value" in result ? result.value : undefined;
+  return [output as SchemaOutput<S>, null];
+};
+
+/**
+ * Returns the data of a result, or throws its error
+ */
+const unwrapResult = <T>([data, error]: NeatCatchResult<T, unknown>): T => {
+  if (error !== null) throw error;
+  return data as T;
+};
+
+/**
+ * Gives a decorator's replacement method the name and length of the original
+ */
+const keepMethodMetadata = <F extends (...args: any[]) => any>(
+  method: F,
+  replacement: F
+): F =>
+  Object.defineProperties(replacement, {
+    name: { value: method.name },
+    length: { value: method.length },
+  });
+
+/**
+ * Assimilates a thenable into a native Promise like `await` does, reading
+ * `then` once. Returns undefined for values without a `then` method.
+ */
+const fromThenable = (value: unknown): Promise<unknown> | undefined => {
+  if (value instanceof Promise) return value;
+  if (
+    value === null ||
+    (typeof value !== "object" && typeof value !== "function")
+  ) {
+    return undefined;
+  }
+
+  const then: unknown = (value as PromiseLike<unknown>).then;
+  if (typeof then !== "function") return undefined;
+  return new Promise((resolve, reject) => then.call(value, resolve, reject));
+};
+
+/**
+ * Whether a function is a class to match with instanceof rather than a predicate:
+ * a `class`, an Error constructor, or a function whose prototype has methods
+ */
+const isClass = (fn: ErrorMatcher<unknown>): boolean => {
+  const prototype: unknown = fn.prototype;
+  if (typeof prototype !== "object" || prototype === null) return false;
+  return (
+    Function.prototype.toString.call(fn).startsWith("class") ||
+    prototype === Error.prototype ||
+    prototype instanceof Error ||
+    Object.getOwnPropertyNames(prototype).length > 1
+  );
+};
+
+/**
+ * Whether a property is a namespace of methods, rather than data such as an array or Date
+ */
+const isNamespace = (value: unknown): boolean =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.prototype.toString.call(value) === "[object Object]";
+
+/**
+ * Whether an error matches the error classes or predicate of a `catch` option
+ */
+const isCaught = (error: unknown, filter: NeatCatchFilter<unknown>): boolean =>
+  typeof filter === "function"
+    ? filter(error)
+    : filter.some((ErrorClass) => error instanceof ErrorClass);
+
+/**
+ * Invokes an optional lifecycle hook, ignoring anything it throws
+ */
+const callHook = <A>(hook: ((event: A) => void) | undefined, event: A) => {
+  if (hook) tryCatch(() => hook(event));
+};
+
+/**
+ * Calculates the delay before the next retry attempt
+ */
+const getRetryDelay = (
+  attempt: number,
+  error: unknown,
+  previousDelay: number,
+  options: Required<
+    Pick<
+      NeatCatchRetryOptions,
+      "delay" | "backoff" | "jitter" | "maxDelay" | "retryAfter"
+    >
+  >
+): number => {
+  const { delay, backoff, jitter, maxDelay, retryAfter } = options;
+
+  const fromError =
+    retryAfter === true
+      ? getRetryAfter(error)
+      : retryAfter
+        ? retryAfter(error)
+        : undefined;
+  if (fromError !== undefined) return Math.min(fromError, maxDelay);
+
+  const base =
+    typeof backoff === "function"
+      ? backoff(attempt, error)
+      : backoff === "exponential"
+        ? delay * Math.pow(2, attempt - 1)
+        : delay * attempt;
+
+  switch (jitter) {
+    case "full":
+      return Math.min(Math.random() * base, maxDelay);
+    case "equal":
+      return Math.min(base / 2 + (Math.random() * base) / 2, maxDelay);
+    case "decorrelated":
+      return Math.min(
+        delay + Math.random() * (previousDelay * 3 - delay),
+        maxDelay
+      );
+    default:
+      return Math.min(base, maxDelay);
+  }
+};
+
+/**
+ * Reads the Retry-After header (seconds or HTTP date) from a Response-like error
+ * and returns it in ms, or undefined when there is none
+ */
+const getRetryAfter = (error: unknown): number | undefined => {
+  if (!error || typeof error !== "object" || !("headers" in error)) {
+    return undefined;
+  }
+
+  const headers = error.headers as any;
+  const value =
+    typeof headers?.get === "function"
+      ? headers.get("retry-after")
+      : (headers?.["retry-after"] ?? headers?.["Retry-After"]);
+  if (value == null || value === "") return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(seconds * 1000, 0);
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+};
+
+/**
+ * Aborts the controller with the given reason when the source signal aborts.
+ * Returns a function that detaches the listener.
+ */
+const linkAbort = (
+  controller: AbortController,
+  source: AbortSignal | undefined,
+  toReason: (source: AbortSignal) => unknown
+): (() => void) => {
+  if (!source) return () => {};
+
+  if (source.aborted) {
+    controller.abort(toReason(source));
+    return () => {};
+  }
+
+  const onAbort = () => controller.abort(toReason(source));
+  source.addEventListener("abort", onAbort, { once: true });
+  return () => source.removeEventListener("abort", onAbort);
+};
+
+/**
+ * Aborts the controller after `ms` milliseconds. Returns a function that clears the timer.
+ */
+const abortAfter = (
+  controller: AbortController,
+  ms: number | undefined,
+  toReason: (ms: number) => unknown
+): (() => void) => {
+  if (ms === undefined) return () => {};
+
+  const timer = setTimeout(() => controller.abort(toReason(ms)), ms);
+  return () => clearTimeout(timer);
+};
+
+/**
+ * Settles with the promise, or rejects with the signal's reason as soon as it aborts
+ */
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+  if (signal.aborted) {
+    // The operation is abandoned, so its own failure must not go unhandled
+    promise.catch(() => {});
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+};
+
+/**
+ * Resolves after `ms` milliseconds, or rejects with the signal's reason if it aborts first
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
 // Type utilities for better developer experience
 export type NeatCatchResult<T, E = Error> = [T, null] | [null, E];
 
+// Result of neatCatchRetry, optionally followed by extra elements such as stats
+type RetryResult<T, E, Extra = never> = [Extra] extends [never]
+  ? [T, null] | [null, E]
+  : [T, null, Extra] | [null, E, Extra];
+
+// Any object with a then method, which `await` and neatCatch treat as a thenable
+type Thenable = { then(onfulfilled: (value: any) => any, ...args: any[]): any };
+
+// What neatCatch accepts: a function to call, or a Promise or thenable to await
+type NeatCatchInput = (() => any) | Thenable;
+
+// Result of neatCatch: a tuple, or a Promise of one for async functions and thenables
+type NeatCatchReturn<TFn extends NeatCatchInput, E> = TFn extends () => any
+  ? ReturnType<TFn> extends Thenable
+    ? Promise<[Awaited<ReturnType<TFn>>, null] | [null, E]>
+    : [ReturnType<TFn>, null] | [null, E]
+  : Promise<[Awaited<TFn>, null] | [null, E]>;
+
+type AnyResult = NeatCatchResult<any, any>;
+
+// Output type of a Standard Schema
+type SchemaOutput<S extends StandardSchemaV1> = NonNullable<
+  S["~standard"]["types"]
+>["output"];
+
+// A property of a neatified client: a wrapped method, a nested namespace or untouched data
+type NeatifiedProperty<
+  V,
+  E,
+  I extends string,
+  X extends string,
+  P extends string,
+> = V extends (...args: infer A) => infer R
+  ? string extends I
+    ? (...args: A) => NeatifiedReturn<R, E>
+    : V
+  : V extends
+        | readonly unknown[]
+        | Date
+        | RegExp
+        | Map<unknown, unknown>
+        | Set<unknown>
+        | Error
+        | Promise<unknown>
+    ? V
+    : V extends object
+      ? Neatified<V, E, I, X, P>
+      : V;
+
+type NeatifiedReturn<R, E> = R extends Thenable
+  ? Promise<NeatCatchResult<Awaited<R>, E>>
+  : NeatCatchResult<R, E>;
+
+// Data and error types of a result, read from each member of the union
+type ResultData<R> = R extends [infer T, null] ? T : never;
+type ResultError<R> = R extends [null, infer E] ? Exclude<E, null> : never;
+
 // Re-export main function as default
 export default neatCatch;
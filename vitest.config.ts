@@ -0,0 +1,6 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // Lower TypeScript 5 decorators, which Node does not support yet
+  esbuild: { target: "es2022" },
+});